@@ -0,0 +1,65 @@
+// Reports, and with --delete removes, images in the habit-images and
+// avatars buckets that no completion or profile references.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     node scripts/storage-gc.mjs [--user <id>] [--min-age "1 day"] [--delete]
+//
+// Needs the service role key; signed-in users can only check their own
+// folders (Settings > Clean Up Storage does that in the app).
+
+import { createClient } from "@supabase/supabase-js";
+
+const REMOVE_BATCH_SIZE = 100;
+
+const getArg = (name) => {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const url = process.env.SUPABASE_URL ?? process.env.EXPO_PUBLIC_SUPABASE_URL;
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceKey) {
+  console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required.");
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceKey, {
+  auth: { persistSession: false },
+});
+
+const { data: orphans, error } = await supabase.rpc("list_orphaned_images", {
+  p_user_id: getArg("--user") ?? null,
+  p_min_age: getArg("--min-age") ?? "1 day",
+});
+if (error) {
+  console.error("Failed to list orphaned images:", error.message);
+  process.exit(1);
+}
+
+const totalBytes = orphans.reduce((sum, o) => sum + (o.size ?? 0), 0);
+orphans.forEach((o) => console.log(`${o.bucket_id}/${o.name}`));
+console.log(
+  `${orphans.length} orphaned image(s), ${(totalBytes / 1048576).toFixed(1)} MB`
+);
+
+if (!process.argv.includes("--delete") || orphans.length === 0) {
+  process.exit(0);
+}
+
+const byBucket = {};
+orphans.forEach(({ bucket_id, name }) => {
+  (byBucket[bucket_id] ||= []).push(name);
+});
+
+for (const [bucket, paths] of Object.entries(byBucket)) {
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const { error: removeError } = await supabase.storage
+      .from(bucket)
+      .remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+    if (removeError) {
+      console.error(`Failed to remove from ${bucket}:`, removeError.message);
+      process.exit(1);
+    }
+  }
+}
+console.log("Deleted.");
@@ -0,0 +1,68 @@
+// Local stand-in for Supabase Storage's resumable (TUS) upload endpoint,
+// for trying uploads without a project. The upload tests use it too.
+//
+//   node scripts/tus-standin.mjs [--host 127.0.0.1] [--port 1080] [--dir <path>]
+//
+// Then start the app with
+//   EXPO_PUBLIC_TUS_ENDPOINT=http://<host>:1080/storage/v1/upload/resumable
+//
+// Like Supabase, uploads are named after their object and creating one for
+// an object that already exists fails with 409.
+
+import os from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { Server } from "@tus/server";
+import { FileStore } from "@tus/file-store";
+
+export const ENDPOINT_PATH = "/storage/v1/upload/resumable";
+
+// The id is the last segment of the upload URL, so the object path is encoded
+const toUploadId = (bucketName, objectName) =>
+  Buffer.from(`${bucketName}/${objectName}`).toString("base64url");
+
+export const createTusStandIn = (directory) => {
+  const datastore = new FileStore({ directory });
+
+  return new Server({
+    path: ENDPOINT_PATH,
+    datastore,
+    relativeLocation: true,
+    namingFunction: (req, metadata) => {
+      if (!metadata?.bucketName || !metadata?.objectName) {
+        throw {
+          status_code: 400,
+          body: "bucketName and objectName metadata are required",
+        };
+      }
+      return toUploadId(metadata.bucketName, metadata.objectName);
+    },
+    onUploadCreate: async (req, upload) => {
+      const existing = await datastore.getUpload(upload.id).catch(() => null);
+      if (existing) {
+        throw {
+          status_code: 409,
+          body: JSON.stringify({ message: "The resource already exists" }),
+        };
+      }
+      return {};
+    },
+  });
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const getArg = (name) => {
+    const index = process.argv.indexOf(name);
+    return index === -1 ? undefined : process.argv[index + 1];
+  };
+
+  const host = getArg("--host") ?? "127.0.0.1";
+  const port = Number(getArg("--port") ?? 1080);
+  const directory = getArg("--dir") ?? path.join(os.tmpdir(), "tus-standin");
+
+  const httpServer = createTusStandIn(directory).listen(port, host, () => {
+    console.log(
+      `TUS stand-in on http://${host}:${httpServer.address().port}${ENDPOINT_PATH}, storing in ${directory}`
+    );
+  });
+}
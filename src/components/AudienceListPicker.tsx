@@ -0,0 +1,87 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { AudienceList, RootStackParamList } from "../types";
+
+interface AudienceListPickerProps {
+  lists: AudienceList[];
+  selectedListId: string | null;
+  onSelect: (listId: string) => void;
+}
+
+const AudienceListPicker: React.FC<AudienceListPickerProps> = ({
+  lists,
+  selectedListId,
+  onSelect,
+}) => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+
+  return (
+    <View style={styles.chipsRow}>
+      {lists.map((list) => {
+        const selected = list.id === selectedListId;
+        return (
+          <TouchableOpacity
+            key={list.id}
+            style={[styles.chip, selected && styles.selectedChip]}
+            onPress={() => onSelect(list.id)}
+          >
+            <Ionicons
+              name={selected ? "star" : "star-outline"}
+              size={14}
+              color={selected ? "#fff" : "#666"}
+            />
+            <Text style={[styles.chipText, selected && styles.selectedText]}>
+              {list.name} ({list.members?.length ?? 0})
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+      <TouchableOpacity
+        style={styles.chip}
+        onPress={() => navigation.navigate("AudienceLists")}
+      >
+        <Ionicons name="create-outline" size={14} color="#666" />
+        <Text style={styles.chipText}>
+          {lists.length === 0 ? "Create a list" : "Edit lists"}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#eee",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#1a1a1a",
+    borderColor: "#1a1a1a",
+  },
+  chipText: {
+    color: "#666",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  selectedText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
+
+export default AudienceListPicker;
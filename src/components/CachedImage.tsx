@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from "react";
 import { Image, ImageProps } from "react-native";
 import * as FileSystem from "expo-file-system/legacy";
+import { supabase, BUCKETS, getHabitImagePath } from "../services/supabase";
 
 interface CachedImageProps extends Omit<ImageProps, "source"> {
   source: { uri: string };
@@ -10,6 +11,22 @@ interface CachedImageProps extends Omit<ImageProps, "source"> {
 // This prevents checking the file system repeatedly for the same image
 const uriCache = new Map<string, string>();
 
+const SIGNED_URL_TTL = 60 * 60; // Seconds
+
+// Habit images live in a private bucket, so their stored public URLs are
+// swapped for signed ones and storage policies decide who may download them
+const getDownloadUri = async (uri: string) => {
+  const path = getHabitImagePath(uri);
+  if (!path) return uri;
+
+  const { data, error } = await supabase.storage
+    .from(BUCKETS.HABIT_IMAGES)
+    .createSignedUrl(path, SIGNED_URL_TTL);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
 export const CachedImage: React.FC<CachedImageProps> = ({
   source,
   ...props
@@ -67,7 +84,15 @@ export const CachedImage: React.FC<CachedImageProps> = ({
           if (isMounted) setCachedUri(path);
         } else {
           // Download in background
-          const downloadRes = await FileSystem.downloadAsync(source.uri, path);
+          const downloadUri = await getDownloadUri(source.uri);
+          const downloadRes = await FileSystem.downloadAsync(downloadUri, path);
+
+          // Don't keep an error response around as the cached image
+          if (downloadRes.status !== 200) {
+            await FileSystem.deleteAsync(path, { idempotent: true });
+            return;
+          }
+
           if (isMounted && downloadRes && downloadRes.uri) {
             uriCache.set(source.uri, downloadRes.uri);
             setCachedUri(downloadRes.uri);
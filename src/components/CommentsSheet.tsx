@@ -0,0 +1,396 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  KeyboardAvoidingView,
+  Platform,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { supabase } from "../services/supabase";
+import { useAuth } from "../contexts/AuthContext";
+import { CompletionComment } from "../types";
+
+const MAX_DEPTH = 3; // Deeper replies are drawn at this indent
+
+interface CommentsSheetProps {
+  visible: boolean;
+  completionId: string | null;
+  completionOwnerId?: string;
+  onClose: () => void;
+  onCountChange?: (completionId: string, count: number) => void;
+}
+
+interface ThreadedComment extends CompletionComment {
+  depth: number;
+}
+
+// Depth-first order so each reply sits under the comment it answers
+const threadComments = (comments: CompletionComment[]): ThreadedComment[] => {
+  const children: Record<string, CompletionComment[]> = {};
+  const ids = new Set(comments.map((c) => c.id));
+  const roots: CompletionComment[] = [];
+
+  comments.forEach((comment) => {
+    if (comment.parent_id && ids.has(comment.parent_id)) {
+      (children[comment.parent_id] ||= []).push(comment);
+    } else {
+      roots.push(comment);
+    }
+  });
+
+  const result: ThreadedComment[] = [];
+  const visit = (comment: CompletionComment, depth: number) => {
+    result.push({ ...comment, depth });
+    (children[comment.id] || []).forEach((reply) => visit(reply, depth + 1));
+  };
+  roots.forEach((root) => visit(root, 0));
+  return result;
+};
+
+const formatTimeAgo = (dateString: string) => {
+  const minutes = Math.floor(
+    (Date.now() - new Date(dateString).getTime()) / 60000
+  );
+  if (minutes < 1) return "now";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+};
+
+const CommentsSheet: React.FC<CommentsSheetProps> = ({
+  visible,
+  completionId,
+  completionOwnerId,
+  onClose,
+  onCountChange,
+}) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<CompletionComment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [text, setText] = useState("");
+  const [replyTo, setReplyTo] = useState<CompletionComment | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const fetchComments = useCallback(async () => {
+    if (!completionId) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("completion_comments")
+        .select("*, user:users(id, username, avatar_url)")
+        .eq("completion_id", completionId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setComments(data || []);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [completionId]);
+
+  useEffect(() => {
+    if (visible) {
+      fetchComments();
+    } else {
+      setText("");
+      setReplyTo(null);
+    }
+  }, [visible, fetchComments]);
+
+  const updateComments = (next: CompletionComment[]) => {
+    setComments(next);
+    if (completionId) onCountChange?.(completionId, next.length);
+  };
+
+  const handleSend = async () => {
+    if (!user || !completionId || !text.trim() || sending) return;
+
+    setSending(true);
+    try {
+      const { data, error } = await supabase
+        .from("completion_comments")
+        .insert({
+          completion_id: completionId,
+          user_id: user.id,
+          parent_id: replyTo?.id ?? null,
+          content: text.trim(),
+        })
+        .select("*, user:users(id, username, avatar_url)")
+        .single();
+
+      if (error) throw error;
+
+      updateComments([...comments, data]);
+      setText("");
+      setReplyTo(null);
+    } catch (error) {
+      console.error("Error posting comment:", error);
+      Alert.alert("Error", "Failed to post comment. Please try again.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleLongPress = (comment: CompletionComment) => {
+    const canDelete =
+      comment.user_id === user?.id || completionOwnerId === user?.id;
+    if (!canDelete) return;
+
+    Alert.alert("Delete Comment", "Delete this comment and its replies?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            const { error } = await supabase
+              .from("completion_comments")
+              .delete()
+              .eq("id", comment.id);
+
+            if (error) throw error;
+
+            // Replies are removed by the cascade, so refetch the thread
+            await fetchComments();
+            if (completionId) {
+              const { count } = await supabase
+                .from("completion_comments")
+                .select("id", { count: "exact", head: true })
+                .eq("completion_id", completionId);
+              onCountChange?.(completionId, count ?? 0);
+            }
+          } catch (error) {
+            console.error("Error deleting comment:", error);
+            Alert.alert("Error", "Failed to delete comment.");
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderComment = ({ item }: { item: ThreadedComment }) => (
+    <Pressable
+      style={[
+        styles.commentRow,
+        { paddingLeft: 16 + Math.min(item.depth, MAX_DEPTH) * 24 },
+      ]}
+      onLongPress={() => handleLongPress(item)}
+    >
+      <View style={styles.avatar}>
+        {item.user?.avatar_url ? (
+          <Image source={{ uri: item.user.avatar_url }} style={styles.avatar} />
+        ) : (
+          <Ionicons name="person" size={14} color="#666" />
+        )}
+      </View>
+      <View style={styles.commentBody}>
+        <Text style={styles.commentText}>
+          <Text style={styles.username}>{item.user?.username} </Text>
+          {item.content}
+        </Text>
+        <View style={styles.commentMeta}>
+          <Text style={styles.metaText}>{formatTimeAgo(item.created_at)}</Text>
+          <TouchableOpacity onPress={() => setReplyTo(item)}>
+            <Text style={styles.replyText}>Reply</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+      >
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.handle} />
+          <Text style={styles.title}>Comments</Text>
+
+          {loading && comments.length === 0 ? (
+            <ActivityIndicator style={styles.loading} color="#666" />
+          ) : (
+            <FlatList
+              data={threadComments(comments)}
+              renderItem={renderComment}
+              keyExtractor={(item) => item.id}
+              style={styles.list}
+              ListEmptyComponent={
+                <Text style={styles.emptyText}>
+                  No comments yet. Start the conversation!
+                </Text>
+              }
+            />
+          )}
+
+          {replyTo && (
+            <View style={styles.replyBanner}>
+              <Text style={styles.replyBannerText}>
+                Replying to {replyTo.user?.username}
+              </Text>
+              <TouchableOpacity onPress={() => setReplyTo(null)}>
+                <Ionicons name="close" size={18} color="#666" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.input}
+              placeholder="Add a comment..."
+              value={text}
+              onChangeText={setText}
+              maxLength={500}
+              multiline
+            />
+            <TouchableOpacity
+              style={styles.sendButton}
+              onPress={handleSend}
+              disabled={!text.trim() || sending}
+            >
+              <Ionicons
+                name="send"
+                size={20}
+                color={text.trim() && !sending ? "#007AFF" : "#ccc"}
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  sheet: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: "75%",
+    paddingBottom: 24,
+  },
+  handle: {
+    alignSelf: "center",
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#ddd",
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    textAlign: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  loading: {
+    padding: 40,
+  },
+  list: {
+    flexGrow: 0,
+    minHeight: 120,
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#999",
+    fontSize: 14,
+    padding: 40,
+  },
+  commentRow: {
+    flexDirection: "row",
+    paddingRight: 16,
+    paddingVertical: 10,
+  },
+  avatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: "#f0f0f0",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 10,
+  },
+  commentBody: {
+    flex: 1,
+  },
+  commentText: {
+    fontSize: 14,
+    color: "#333",
+    lineHeight: 19,
+  },
+  username: {
+    fontWeight: "600",
+  },
+  commentMeta: {
+    flexDirection: "row",
+    marginTop: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: "#999",
+    marginRight: 16,
+  },
+  replyText: {
+    fontSize: 12,
+    color: "#666",
+    fontWeight: "600",
+  },
+  replyBanner: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "#f8f9fa",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  replyBannerText: {
+    fontSize: 13,
+    color: "#666",
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  input: {
+    flex: 1,
+    maxHeight: 100,
+    fontSize: 15,
+    paddingVertical: 8,
+  },
+  sendButton: {
+    padding: 8,
+  },
+});
+
+export default CommentsSheet;
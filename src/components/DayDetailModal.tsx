@@ -11,6 +11,11 @@ import {
 import { HabitCompletion } from "../types";
 import { CachedImage } from "./CachedImage";
 import { Ionicons } from "@expo/vector-icons";
+import EngagementBar from "./EngagementBar";
+import CommentsSheet from "./CommentsSheet";
+import ReactionPicker from "./ReactionPicker";
+import { useCompletionEngagement } from "../hooks/useCompletionEngagement";
+import { useAuth } from "../contexts/AuthContext";
 
 const { width, height } = Dimensions.get("window");
 
@@ -26,6 +31,21 @@ const DayDetailModal: React.FC<DayDetailModalProps> = ({
   onClose,
 }) => {
   const [activeIndex, setActiveIndex] = useState(0);
+  const [commentsCompletion, setCommentsCompletion] =
+    useState<HabitCompletion | null>(null);
+  const [reactionCompletion, setReactionCompletion] =
+    useState<HabitCompletion | null>(null);
+  const { user } = useAuth();
+  const { getEngagement, toggleLike, toggleReaction, setCommentCount } =
+    useCompletionEngagement(
+      visible && completions ? completions.map((c) => c.id) : [],
+      {
+        realtime:
+          !!user &&
+          !!completions &&
+          completions.some((c) => c.user_id === user.id),
+      }
+    );
 
   if (!completions || completions.length === 0) return null;
 
@@ -112,6 +132,19 @@ const DayDetailModal: React.FC<DayDetailModalProps> = ({
                       {formatDateTime(completion.completed_at)}
                     </Text>
                   </View>
+
+                  <View style={styles.engagementContainer}>
+                    <EngagementBar
+                      engagement={getEngagement(completion.id)}
+                      onToggleLike={() => toggleLike(completion.id)}
+                      onOpenComments={() => setCommentsCompletion(completion)}
+                      onToggleReaction={(emoji) =>
+                        toggleReaction(completion.id, emoji)
+                      }
+                      onAddReaction={() => setReactionCompletion(completion)}
+                      dark={true}
+                    />
+                  </View>
                 </View>
               </View>
             ))}
@@ -135,6 +168,27 @@ const DayDetailModal: React.FC<DayDetailModalProps> = ({
           )}
         </View>
       </View>
+
+      <CommentsSheet
+        visible={!!commentsCompletion}
+        completionId={commentsCompletion?.id ?? null}
+        completionOwnerId={commentsCompletion?.user_id}
+        onClose={() => setCommentsCompletion(null)}
+        onCountChange={setCommentCount}
+      />
+
+      <ReactionPicker
+        visible={!!reactionCompletion}
+        reactions={
+          reactionCompletion
+            ? getEngagement(reactionCompletion.id).reactions
+            : []
+        }
+        onSelect={(emoji) =>
+          reactionCompletion && toggleReaction(reactionCompletion.id, emoji)
+        }
+        onClose={() => setReactionCompletion(null)}
+      />
     </Modal>
   );
 };
@@ -186,6 +240,10 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
   },
+  engagementContainer: {
+    width: "100%",
+    paddingHorizontal: 4,
+  },
   timeText: {
     fontSize: 14,
     color: "rgba(255, 255, 255, 0.8)",
@@ -7,9 +7,12 @@ const COLORS = ['#FFD700', '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEEAD'
 
 interface EncourageButtonProps {
   onPress?: () => void;
+  onLongPress?: () => void; // Opens the reaction picker
+  count?: number;
+  encouraged?: boolean; // Already encouraged today
 }
 
-const EncourageButton: React.FC<EncourageButtonProps> = ({ onPress }) => {
+const EncourageButton: React.FC<EncourageButtonProps> = ({ onPress, onLongPress, count = 0, encouraged = false }) => {
   const [particles] = useState(() => 
     Array(PARTICLE_COUNT).fill(0).map(() => ({
       anim: new Animated.Value(0),
@@ -105,12 +108,14 @@ const EncourageButton: React.FC<EncourageButtonProps> = ({ onPress }) => {
       
       <Animated.View style={{ transform: [{ scale: scaleAnim }] }}>
         <TouchableOpacity 
-          style={styles.encourageButton} 
+          style={[styles.encourageButton, encouraged && styles.encouragedButton]} 
           onPress={handlePress}
+          onLongPress={onLongPress}
           activeOpacity={0.9}
         >
-          <Ionicons name="sparkles-outline" size={16} color="#FFF" />
-          <Text style={styles.encourageText}>Encourage</Text>
+          <Ionicons name={encouraged ? 'sparkles' : 'sparkles-outline'} size={16} color="#FFF" />
+          <Text style={styles.encourageText}>{encouraged ? 'Encouraged' : 'Encourage'}</Text>
+          {count > 0 && <Text style={styles.countText}>{count}</Text>}
         </TouchableOpacity>
       </Animated.View>
     </View>
@@ -148,6 +153,15 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     marginLeft: 8,
   },
+  encouragedButton: {
+    backgroundColor: "#6C5CE7",
+  },
+  countText: {
+    color: "rgba(255, 255, 255, 0.8)",
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
 });
 
 export default EncourageButton;
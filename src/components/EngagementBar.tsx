@@ -0,0 +1,197 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { CompletionEngagement } from "../hooks/useCompletionEngagement";
+
+interface EngagementBarProps {
+  engagement: CompletionEngagement;
+  onToggleLike: () => void;
+  onOpenComments: () => void;
+  onToggleReaction?: (emoji: string) => void;
+  onAddReaction?: () => void; // Opens the emoji picker
+  dark?: boolean; // White text for the image modals
+}
+
+// "anna, ben and 3 others"
+const joinNames = (names: string[]) => {
+  if (names.length <= 2) return names.join(" and ");
+
+  const others = names.length - 2;
+  return `${names.slice(0, 2).join(", ")} and ${others} other${
+    others === 1 ? "" : "s"
+  }`;
+};
+
+const describeLikes = (engagement: CompletionEngagement) => {
+  const names = engagement.likes
+    .map((like) => like.user?.username)
+    .filter((name): name is string => !!name);
+  if (names.length === 0) return null;
+  return `Liked by ${joinNames(names)}`;
+};
+
+const describeReactors = (engagement: CompletionEngagement) => {
+  const names = Array.from(
+    new Set(engagement.reactions.flatMap((r) => r.friendNames))
+  );
+  if (names.length === 0) return null;
+  return `${joinNames(names)} reacted`;
+};
+
+const EngagementBar: React.FC<EngagementBarProps> = ({
+  engagement,
+  onToggleLike,
+  onOpenComments,
+  onToggleReaction,
+  onAddReaction,
+  dark = false,
+}) => {
+  const color = dark ? "#fff" : "#333";
+  const likedBy = describeLikes(engagement);
+  const reactedBy = describeReactors(engagement);
+
+  const showReactors = (emoji: string, friendNames: string[]) => {
+    if (friendNames.length === 0) return;
+    Alert.alert(emoji, friendNames.join("\n"));
+  };
+
+  return (
+    <View>
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={styles.action} onPress={onToggleLike}>
+          <Ionicons
+            name={engagement.likedByMe ? "heart" : "heart-outline"}
+            size={24}
+            color={engagement.likedByMe ? "#FF3B30" : color}
+          />
+          {engagement.likes.length > 0 && (
+            <Text style={[styles.count, { color }]}>
+              {engagement.likes.length}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.action} onPress={onOpenComments}>
+          <Ionicons name="chatbubble-outline" size={22} color={color} />
+          {engagement.commentCount > 0 && (
+            <Text style={[styles.count, { color }]}>
+              {engagement.commentCount}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        {onAddReaction && (
+          <TouchableOpacity style={styles.action} onPress={onAddReaction}>
+            <Ionicons name="happy-outline" size={23} color={color} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {engagement.reactions.length > 0 && (
+        <View style={styles.reactionsRow}>
+          {engagement.reactions.map((reaction) => (
+            <TouchableOpacity
+              key={reaction.emoji}
+              style={[
+                styles.reactionChip,
+                dark && styles.reactionChipDark,
+                reaction.reactedByMe && styles.reactionChipSelected,
+              ]}
+              onPress={() => onToggleReaction?.(reaction.emoji)}
+              onLongPress={() =>
+                showReactors(reaction.emoji, reaction.friendNames)
+              }
+              disabled={!onToggleReaction}
+            >
+              <Text style={styles.reactionEmoji}>{reaction.emoji}</Text>
+              <Text
+                style={[
+                  styles.reactionCount,
+                  { color },
+                  reaction.reactedByMe && styles.reactionCountSelected,
+                ]}
+              >
+                {reaction.count}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {reactedBy && (
+        <Text style={[styles.likedBy, dark && styles.likedByDark]}>
+          {reactedBy}
+        </Text>
+      )}
+
+      {likedBy && (
+        <Text style={[styles.likedBy, dark && styles.likedByDark]}>
+          {likedBy}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  actionsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 4,
+    marginRight: 16,
+  },
+  count: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 4,
+  },
+  reactionsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 6,
+  },
+  reactionChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#eee",
+    backgroundColor: "#f8f9fa",
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  reactionChipDark: {
+    borderColor: "rgba(255, 255, 255, 0.2)",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  reactionChipSelected: {
+    borderColor: "#6C5CE7",
+    backgroundColor: "rgba(108, 92, 231, 0.15)",
+  },
+  reactionEmoji: {
+    fontSize: 14,
+  },
+  reactionCount: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginLeft: 4,
+  },
+  reactionCountSelected: {
+    color: "#6C5CE7",
+  },
+  likedBy: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 4,
+  },
+  likedByDark: {
+    color: "rgba(255, 255, 255, 0.8)",
+  },
+});
+
+export default EngagementBar;
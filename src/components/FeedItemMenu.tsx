@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  Pressable,
+  StyleSheet,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { FeedItem, ReportReason } from "../types";
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "spam", label: "Spam or misleading" },
+  { value: "nudity", label: "Nudity or sexual content" },
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "violence", label: "Violence or dangerous acts" },
+  { value: "other", label: "Something else" },
+];
+
+interface FeedItemMenuProps {
+  item: FeedItem | null;
+  onClose: () => void;
+  onHide: (item: FeedItem) => void;
+  onMuteUser: (item: FeedItem) => void;
+  onMuteHabit: (item: FeedItem) => void;
+  onReport: (item: FeedItem, reason: ReportReason) => void;
+  onBlock: (item: FeedItem) => void;
+}
+
+const FeedItemMenu: React.FC<FeedItemMenuProps> = ({
+  item,
+  onClose,
+  onHide,
+  onMuteUser,
+  onMuteHabit,
+  onReport,
+  onBlock,
+}) => {
+  const [reporting, setReporting] = useState(false);
+
+  useEffect(() => {
+    if (!item) setReporting(false);
+  }, [item]);
+
+  if (!item) return null;
+
+  // Close first so the sheet is gone before any follow-up alert
+  const run = (action: () => void) => {
+    onClose();
+    action();
+  };
+
+  const renderOption = (
+    icon: keyof typeof Ionicons.glyphMap,
+    label: string,
+    onPress: () => void,
+    destructive = false
+  ) => (
+    <TouchableOpacity key={label} style={styles.option} onPress={onPress}>
+      <Ionicons
+        name={icon}
+        size={22}
+        color={destructive ? "#FF3B30" : "#333"}
+      />
+      <Text style={[styles.optionText, destructive && styles.destructive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={!!item}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.sheet}>
+          <View style={styles.handle} />
+
+          {reporting ? (
+            <>
+              <Text style={styles.title}>Why are you reporting this?</Text>
+              {REPORT_REASONS.map((reason) =>
+                renderOption("flag-outline", reason.label, () =>
+                  run(() => onReport(item, reason.value))
+                )
+              )}
+            </>
+          ) : (
+            <>
+              {renderOption("eye-off-outline", "Hide this post", () =>
+                run(() => onHide(item))
+              )}
+              {renderOption(
+                "person-remove-outline",
+                `Mute ${item.user.username}`,
+                () => run(() => onMuteUser(item))
+              )}
+              {renderOption(
+                "notifications-off-outline",
+                `Mute "${item.habit.title}"`,
+                () => run(() => onMuteHabit(item))
+              )}
+              {renderOption(
+                "flag-outline",
+                "Report",
+                () => setReporting(true),
+                true
+              )}
+              {renderOption(
+                "ban-outline",
+                `Block ${item.user.username}`,
+                () => run(() => onBlock(item)),
+                true
+              )}
+            </>
+          )}
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  sheet: {
+    backgroundColor: "#fff",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 32,
+  },
+  handle: {
+    alignSelf: "center",
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#ddd",
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    textAlign: "center",
+    paddingVertical: 12,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  optionText: {
+    fontSize: 16,
+    color: "#333",
+    marginLeft: 16,
+  },
+  destructive: {
+    color: "#FF3B30",
+  },
+  cancelButton: {
+    alignItems: "center",
+    paddingVertical: 16,
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+});
+
+export default FeedItemMenu;
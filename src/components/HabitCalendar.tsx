@@ -10,37 +10,66 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { HabitCompletion } from "../types";
 import { CachedImage } from "./CachedImage";
+import {
+  HabitSchedule,
+  getPeriodKey,
+  isScheduledDay,
+} from "../utils/frequency";
+import { getCompletionDateKey, toDateKey } from "../utils/dates";
+import { getMetPeriodKeys } from "../utils/habitStats";
 
 interface HabitCalendarProps {
   habitId: string;
   habitTitle: string;
   habitColor: string;
+  schedule?: HabitSchedule;
+  timeZone?: string; // Owner's home timezone; device clock when omitted
   completions: HabitCompletion[];
   onCompletionPress?: (completion: HabitCompletion) => void;
   onDayPress?: (date: Date, habitId: string) => void;
+  onDayLongPress?: (dateKey: string, habitId: string) => void;
+  frozenDays?: string[];
+  restDays?: string[];
   compact?: boolean;
   hideHeader?: boolean;
   showMonthNavigation?: boolean;
   isUploading?: boolean;
   uploadProgress?: number;
-  uploadingImages?: { backUri: string; frontUri: string };
+  uploadingImages?: { backUri: string; frontUri: string; localDate: string };
+  onCancelUpload?: () => void; // Adds a cancel button to the uploading cell
   isEditing?: boolean;
   createdAt?: string;
 }
 
+const hexToRgba = (hex: string, opacity: number) => {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result
+    ? `rgba(${parseInt(result[1], 16)}, ${parseInt(result[2], 16)}, ${parseInt(
+        result[3],
+        16
+      )}, ${opacity})`
+    : `rgba(0, 0, 0, ${opacity})`;
+};
+
 const HabitCalendar: React.FC<HabitCalendarProps> = ({
   habitId,
   habitTitle,
   habitColor,
+  schedule = { frequency: "daily", target_count: 1 },
+  timeZone,
   completions,
   onCompletionPress,
   onDayPress,
+  onDayLongPress,
+  frozenDays = [],
+  restDays = [],
   compact = false,
   hideHeader = false,
   showMonthNavigation = true,
   isUploading = false,
   uploadProgress = 0,
   uploadingImages,
+  onCancelUpload,
   isEditing = false,
   createdAt,
 }) => {
@@ -49,6 +78,15 @@ const HabitCalendar: React.FC<HabitCalendarProps> = ({
 
   const daySize = calendarGridWidth > 0 ? Math.floor(calendarGridWidth / 7) : 0;
 
+  // Weeks/months whose target is already met are shaded as done
+  const metPeriodKeys =
+    schedule.frequency === "daily"
+      ? new Set<string>()
+      : getMetPeriodKeys(completions, schedule, timeZone);
+
+  const isDayInCompletedPeriod = (dateKey: string) =>
+    metPeriodKeys.has(getPeriodKey(dateKey, schedule.frequency));
+
   const getDaysInMonth = (date: Date) => {
     return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
   };
@@ -57,19 +95,14 @@ const HabitCalendar: React.FC<HabitCalendarProps> = ({
     return new Date(date.getFullYear(), date.getMonth(), 1).getDay();
   };
 
-  const getCompletionForDate = (day: number) => {
-    const dateStr = `${currentDate.getFullYear()}-${String(
-      currentDate.getMonth() + 1
-    ).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
-
-    return completions.find((completion) => {
-      const completionDate = new Date(completion.completed_at);
-      const completionDateStr = `${completionDate.getFullYear()}-${String(
-        completionDate.getMonth() + 1
-      ).padStart(2, "0")}-${String(completionDate.getDate()).padStart(2, "0")}`;
-      return completionDateStr === dateStr;
-    });
-  };
+  // Cells are plain calendar days, so they are keyed without any timezone
+  const getDateKeyForDay = (day: number) =>
+    toDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth(), day));
+
+  const getCompletionForDate = (dateKey: string) =>
+    completions.find(
+      (completion) => getCompletionDateKey(completion, timeZone) === dateKey
+    );
 
   const navigateMonth = (direction: "prev" | "next") => {
     const newDate = new Date(currentDate);
@@ -278,15 +311,12 @@ const HabitCalendar: React.FC<HabitCalendarProps> = ({
 
     // Add cells for each day of the month
     for (let day = 1; day <= daysInMonth; day++) {
-      let completion = getCompletionForDate(day);
-
-      // Check if this is today and we are uploading
-      const isToday =
-        day === new Date().getDate() &&
-        currentDate.getMonth() === new Date().getMonth() &&
-        currentDate.getFullYear() === new Date().getFullYear();
+      const cellKey = getDateKeyForDay(day);
+      let completion = getCompletionForDate(cellKey);
 
-      const showUploading = isToday && isUploading && uploadingImages;
+      // Check if this is the day being uploaded for
+      const showUploading =
+        isUploading && uploadingImages?.localDate === cellKey;
 
       // If uploading, we construct a temporary completion object to render the optimistic image
       if (showUploading && uploadingImages) {
@@ -297,6 +327,7 @@ const HabitCalendar: React.FC<HabitCalendarProps> = ({
           image_url: uploadingImages.backUri,
           front_image_url: uploadingImages.frontUri,
           completed_at: new Date().toISOString(),
+          local_date: cellKey,
           created_at: new Date().toISOString(),
         };
       }
@@ -333,6 +364,15 @@ const HabitCalendar: React.FC<HabitCalendarProps> = ({
               )}
               {/* Overlay Progress Border if uploading and this is the uploading cell */}
               {showUploading && renderProgressBorder(uploadProgress)}
+              {showUploading && onCancelUpload && (
+                <TouchableOpacity
+                  style={styles.cancelUploadButton}
+                  onPress={onCancelUpload}
+                  hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}
+                >
+                  <Ionicons name="close-circle" size={16} color="#fff" />
+                </TouchableOpacity>
+              )}
 
               {/* Edit Mode Overlay */}
               {isEditing && (
@@ -345,11 +385,26 @@ const HabitCalendar: React.FC<HabitCalendarProps> = ({
             </TouchableOpacity>
           ) : (
             <TouchableOpacity
-              style={styles.emptyDay}
+              style={[
+                styles.emptyDay,
+                isDayInCompletedPeriod(cellKey) && {
+                  backgroundColor: hexToRgba(habitColor, 0.2),
+                },
+                !isScheduledDay(cellKey, schedule) && styles.unscheduledDay,
+                restDays.includes(cellKey) && styles.restDay,
+                frozenDays.includes(cellKey) && styles.frozenDay,
+              ]}
               onPress={() => handleDayPress(day)}
+              onLongPress={() => onDayLongPress?.(cellKey, habitId)}
               activeOpacity={0.7}
             >
-              <Text style={styles.dayNumberEmpty}>{day}</Text>
+              {frozenDays.includes(cellKey) ? (
+                <Ionicons name="snow" size={14} color="#007AFF" />
+              ) : restDays.includes(cellKey) ? (
+                <Ionicons name="bed-outline" size={14} color="#999" />
+              ) : (
+                <Text style={styles.dayNumberEmpty}>{day}</Text>
+              )}
             </TouchableOpacity>
           )}
         </View>
@@ -523,6 +578,17 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     backgroundColor: "#f8f9fa",
   },
+  unscheduledDay: {
+    backgroundColor: "transparent",
+    opacity: 0.5,
+  },
+  restDay: {
+    backgroundColor: "#eee",
+  },
+  frozenDay: {
+    backgroundColor: "#E3F2FD",
+    opacity: 1,
+  },
   dayNumberEmpty: {
     fontSize: 12,
     color: "#666",
@@ -536,6 +602,14 @@ const styles = StyleSheet.create({
   compactCalendarContainer: {
     padding: 0,
   },
+  cancelUploadButton: {
+    position: "absolute",
+    top: 2,
+    right: 2,
+    borderRadius: 8,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    zIndex: 11,
+  },
   deleteOverlay: {
     ...StyleSheet.absoluteFillObject,
     backgroundColor: "rgba(255, 255, 255, 0.7)",
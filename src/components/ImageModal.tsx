@@ -11,6 +11,11 @@ import {
 } from "react-native";
 import { HabitCompletion } from "../types";
 import { CachedImage } from "./CachedImage";
+import EngagementBar from "./EngagementBar";
+import CommentsSheet from "./CommentsSheet";
+import ReactionPicker from "./ReactionPicker";
+import { useCompletionEngagement } from "../hooks/useCompletionEngagement";
+import { useAuth } from "../contexts/AuthContext";
 
 const { width, height } = Dimensions.get("window");
 
@@ -26,6 +31,14 @@ const ImageModal: React.FC<ImageModalProps> = ({
   completion,
   onClose,
 }) => {
+  const [commentsVisible, setCommentsVisible] = useState(false);
+  const [pickerVisible, setPickerVisible] = useState(false);
+  const { user } = useAuth();
+  const { getEngagement, toggleLike, toggleReaction, setCommentCount } =
+    useCompletionEngagement(visible && completion ? [completion.id] : [], {
+      realtime: !!user && completion?.user_id === user.id,
+    });
+
   if (!completion) return null;
 
   const formatDateTime = (dateString: string) => {
@@ -93,10 +106,38 @@ const ImageModal: React.FC<ImageModalProps> = ({
                   {formatDateTime(completion.completed_at)}
                 </Text>
               </View>
+
+              <View style={styles.engagementContainer}>
+                <EngagementBar
+                  engagement={getEngagement(completion.id)}
+                  onToggleLike={() => toggleLike(completion.id)}
+                  onOpenComments={() => setCommentsVisible(true)}
+                  onToggleReaction={(emoji) =>
+                    toggleReaction(completion.id, emoji)
+                  }
+                  onAddReaction={() => setPickerVisible(true)}
+                  dark={true}
+                />
+              </View>
             </View>
           </View>
         </TouchableWithoutFeedback>
       </Pressable>
+
+      <CommentsSheet
+        visible={commentsVisible}
+        completionId={completion.id}
+        completionOwnerId={completion.user_id}
+        onClose={() => setCommentsVisible(false)}
+        onCountChange={setCommentCount}
+      />
+
+      <ReactionPicker
+        visible={pickerVisible}
+        reactions={getEngagement(completion.id).reactions}
+        onSelect={(emoji) => toggleReaction(completion.id, emoji)}
+        onClose={() => setPickerVisible(false)}
+      />
     </Modal>
   );
 };
@@ -175,6 +216,9 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
   },
+  engagementContainer: {
+    width: width - 32,
+  },
   timeText: {
     fontSize: 14,
     color: "#fff",
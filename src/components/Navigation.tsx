@@ -15,7 +15,6 @@ import {
   ProfileScreen,
   CreateHabitScreen,
   HabitDetailScreen,
-  CameraScreen,
   LoadingScreen,
   FriendsScreen,
   SettingsScreen,
@@ -24,6 +23,9 @@ import DualCameraScreen from "../screens/DualCameraScreen";
 import UserProfileScreen from "../screens/UserProfileScreen";
 import NotificationsScreen from "../screens/NotificationsScreen";
 import MessagingScreen from "../screens/MessagingScreen";
+import AudienceListsScreen from "../screens/AudienceListsScreen";
+import ModerationScreen from "../screens/ModerationScreen";
+import PendingUploadsScreen from "../screens/PendingUploadsScreen";
 
 const Stack = createStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
@@ -93,14 +95,6 @@ const MainStack = () => {
         component={HabitDetailScreen}
         options={{ headerShown: false }}
       />
-      <Stack.Screen
-        name="Camera"
-        component={CameraScreen}
-        options={{
-          title: "Take Photo",
-          presentation: "modal",
-        }}
-      />
       <Stack.Screen
         name="DualCamera"
         component={DualCameraScreen}
@@ -128,6 +122,21 @@ const MainStack = () => {
         component={SettingsScreen}
         options={{ headerShown: false }}
       />
+      <Stack.Screen
+        name="AudienceLists"
+        component={AudienceListsScreen}
+        options={{ headerShown: false }}
+      />
+      <Stack.Screen
+        name="Moderation"
+        component={ModerationScreen}
+        options={{ headerShown: false }}
+      />
+      <Stack.Screen
+        name="PendingUploads"
+        component={PendingUploadsScreen}
+        options={{ headerShown: false }}
+      />
     </Stack.Navigator>
   );
 };
@@ -0,0 +1,92 @@
+import React from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  Pressable,
+  StyleSheet,
+} from "react-native";
+import {
+  REACTION_EMOJIS,
+  ReactionSummary,
+} from "../hooks/useCompletionEngagement";
+
+interface ReactionPickerProps {
+  visible: boolean;
+  reactions: ReactionSummary[];
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+const ReactionPicker: React.FC<ReactionPickerProps> = ({
+  visible,
+  reactions,
+  onSelect,
+  onClose,
+}) => {
+  const isSelected = (emoji: string) =>
+    reactions.some((r) => r.emoji === emoji && r.reactedByMe);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <View style={styles.palette}>
+          {REACTION_EMOJIS.map((emoji) => (
+            <TouchableOpacity
+              key={emoji}
+              style={[styles.option, isSelected(emoji) && styles.selected]}
+              onPress={() => {
+                onSelect(emoji);
+                onClose();
+              }}
+            >
+              <Text style={styles.emoji}>{emoji}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+  },
+  palette: {
+    flexDirection: "row",
+    backgroundColor: "#fff",
+    borderRadius: 30,
+    padding: 8,
+    gap: 4,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  option: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  selected: {
+    backgroundColor: "#EEF0FF",
+  },
+  emoji: {
+    fontSize: 26,
+  },
+});
+
+export default ReactionPicker;
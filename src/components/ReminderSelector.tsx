@@ -0,0 +1,245 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { WEEKDAY_LABELS } from "../utils/frequency";
+
+const MINUTE_STEP = 5;
+
+interface ReminderSelectorProps {
+  times: string[];
+  weekdayMask: number | null;
+  onTimesChange: (times: string[]) => void;
+  onWeekdayMaskChange: (weekdayMask: number | null) => void;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const ReminderSelector: React.FC<ReminderSelectorProps> = ({
+  times,
+  weekdayMask,
+  onTimesChange,
+  onWeekdayMaskChange,
+}) => {
+  const [adding, setAdding] = useState(false);
+  const [hour, setHour] = useState(9);
+  const [minute, setMinute] = useState(0);
+
+  const handleAddTime = () => {
+    const time = `${pad(hour)}:${pad(minute)}`;
+    if (!times.includes(time)) {
+      onTimesChange([...times, time].sort());
+    }
+    setAdding(false);
+  };
+
+  const handleRemoveTime = (time: string) => {
+    onTimesChange(times.filter((t) => t !== time));
+  };
+
+  const toggleWeekday = (day: number) => {
+    // No mask means every day, so start from a full week
+    const current = weekdayMask || 0b1111111;
+    const next = current ^ (1 << day);
+    if (next === 0) return; // Keep at least one day selected
+    onWeekdayMaskChange(next === 0b1111111 ? null : next);
+  };
+
+  const mask = weekdayMask || 0b1111111;
+
+  return (
+    <View>
+      <View style={styles.timesRow}>
+        {times.map((time) => (
+          <View key={time} style={styles.timeChip}>
+            <Ionicons name="alarm-outline" size={16} color="#fff" />
+            <Text style={styles.timeChipText}>{time}</Text>
+            <TouchableOpacity onPress={() => handleRemoveTime(time)}>
+              <Ionicons name="close" size={16} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        ))}
+        {!adding && (
+          <TouchableOpacity
+            style={styles.addChip}
+            onPress={() => setAdding(true)}
+          >
+            <Ionicons name="add" size={16} color="#666" />
+            <Text style={styles.addChipText}>Add time</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {adding && (
+        <View style={styles.editorRow}>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setHour((hour + 23) % 24)}
+            >
+              <Ionicons name="remove" size={18} color="#333" />
+            </TouchableOpacity>
+            <Text style={styles.stepperText}>{pad(hour)}</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setHour((hour + 1) % 24)}
+            >
+              <Ionicons name="add" size={18} color="#333" />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.separator}>:</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setMinute((minute + 60 - MINUTE_STEP) % 60)}
+            >
+              <Ionicons name="remove" size={18} color="#333" />
+            </TouchableOpacity>
+            <Text style={styles.stepperText}>{pad(minute)}</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setMinute((minute + MINUTE_STEP) % 60)}
+            >
+              <Ionicons name="add" size={18} color="#333" />
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity style={styles.editorButton} onPress={handleAddTime}>
+            <Ionicons name="checkmark" size={20} color="#34C759" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.editorButton}
+            onPress={() => setAdding(false)}
+          >
+            <Ionicons name="close" size={20} color="#999" />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {times.length > 0 && (
+        <View style={styles.weekdayRow}>
+          {WEEKDAY_LABELS.map((label, day) => {
+            const selected = (mask & (1 << day)) !== 0;
+            return (
+              <TouchableOpacity
+                key={label}
+                style={[
+                  styles.weekdayOption,
+                  selected && styles.selectedOption,
+                ]}
+                onPress={() => toggleWeekday(day)}
+              >
+                <Text
+                  style={[
+                    styles.weekdayText,
+                    selected && styles.selectedOptionText,
+                  ]}
+                >
+                  {label.charAt(0)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  timesRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  timeChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#1a1a1a",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  timeChipText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  addChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#eee",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  addChipText: {
+    color: "#666",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  editorRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+    gap: 6,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#eee",
+  },
+  stepperButton: {
+    padding: 8,
+  },
+  stepperText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1a1a1a",
+    minWidth: 24,
+    textAlign: "center",
+  },
+  separator: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1a1a1a",
+  },
+  editorButton: {
+    padding: 6,
+  },
+  weekdayRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 6,
+    marginTop: 12,
+  },
+  weekdayOption: {
+    flex: 1,
+    aspectRatio: 1,
+    maxWidth: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: "#eee",
+    backgroundColor: "#fff",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  selectedOption: {
+    backgroundColor: "#1a1a1a",
+    borderColor: "#1a1a1a",
+  },
+  weekdayText: {
+    fontSize: 13,
+    fontWeight: "500",
+    color: "#666",
+  },
+  selectedOptionText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+});
+
+export default ReminderSelector;
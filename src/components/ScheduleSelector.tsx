@@ -0,0 +1,158 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Frequency, WEEKDAY_LABELS } from "../utils/frequency";
+
+const MAX_TARGET: Record<Frequency, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 31,
+};
+
+interface ScheduleSelectorProps {
+  frequency: Frequency;
+  targetCount: number;
+  weekdayMask: number | null;
+  onTargetCountChange: (targetCount: number) => void;
+  onWeekdayMaskChange: (weekdayMask: number | null) => void;
+  compact?: boolean;
+}
+
+const ScheduleSelector: React.FC<ScheduleSelectorProps> = ({
+  frequency,
+  targetCount,
+  weekdayMask,
+  onTargetCountChange,
+  onWeekdayMaskChange,
+  compact = false,
+}) => {
+  const toggleWeekday = (day: number) => {
+    // No mask means every day, so start from a full week
+    const current = weekdayMask || 0b1111111;
+    const next = current ^ (1 << day);
+    if (next === 0) return; // Keep at least one day scheduled
+    onWeekdayMaskChange(next === 0b1111111 ? null : next);
+  };
+
+  if (frequency === "daily") {
+    const mask = weekdayMask || 0b1111111;
+
+    return (
+      <View style={styles.weekdayRow}>
+        {WEEKDAY_LABELS.map((label, day) => {
+          const selected = (mask & (1 << day)) !== 0;
+          return (
+            <TouchableOpacity
+              key={label}
+              style={[
+                styles.weekdayOption,
+                compact && styles.weekdayOptionCompact,
+                selected && styles.selectedOption,
+              ]}
+              onPress={() => toggleWeekday(day)}
+            >
+              <Text
+                style={[
+                  styles.weekdayText,
+                  selected && styles.selectedOptionText,
+                ]}
+              >
+                {label.charAt(0)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  }
+
+  const maxTarget = MAX_TARGET[frequency];
+  const period = frequency === "weekly" ? "week" : "month";
+
+  return (
+    <View style={styles.stepperRow}>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onTargetCountChange(Math.max(1, targetCount - 1))}
+        disabled={targetCount <= 1}
+      >
+        <Ionicons
+          name="remove"
+          size={20}
+          color={targetCount <= 1 ? "#ccc" : "#333"}
+        />
+      </TouchableOpacity>
+      <Text style={styles.stepperText}>
+        {targetCount}× per {period}
+      </Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() =>
+          onTargetCountChange(Math.min(maxTarget, targetCount + 1))
+        }
+        disabled={targetCount >= maxTarget}
+      >
+        <Ionicons
+          name="add"
+          size={20}
+          color={targetCount >= maxTarget ? "#ccc" : "#333"}
+        />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  weekdayRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 6,
+  },
+  weekdayOption: {
+    flex: 1,
+    aspectRatio: 1,
+    maxWidth: 44,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: "#eee",
+    backgroundColor: "#fff",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  weekdayOptionCompact: {
+    maxWidth: 32,
+  },
+  selectedOption: {
+    backgroundColor: "#1a1a1a",
+    borderColor: "#1a1a1a",
+  },
+  weekdayText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#666",
+  },
+  selectedOptionText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#eee",
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  stepperButton: {
+    padding: 8,
+  },
+  stepperText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1a1a1a",
+  },
+});
+
+export default ScheduleSelector;
@@ -0,0 +1,106 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Image,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { StoryGroup } from "../types";
+
+interface StoryAvatarRowProps {
+  groups: StoryGroup[];
+  isViewed: (group: StoryGroup) => boolean;
+  onPress: (index: number) => void;
+}
+
+const StoryAvatarRow: React.FC<StoryAvatarRowProps> = ({
+  groups,
+  isViewed,
+  onPress,
+}) => {
+  if (groups.length === 0) return null;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {groups.map((group, index) => {
+        const viewed = isViewed(group);
+        return (
+          <TouchableOpacity
+            key={group.user.id}
+            style={styles.story}
+            onPress={() => onPress(index)}
+            activeOpacity={0.7}
+          >
+            <View style={[styles.ring, viewed && styles.ringViewed]}>
+              <View style={styles.avatar}>
+                {group.user.avatar_url ? (
+                  <Image
+                    source={{ uri: group.user.avatar_url }}
+                    style={styles.avatar}
+                  />
+                ) : (
+                  <Ionicons name="person" size={24} color="#666" />
+                )}
+              </View>
+            </View>
+            <Text
+              style={[styles.username, viewed && styles.usernameViewed]}
+              numberOfLines={1}
+            >
+              {group.user.username}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 14,
+  },
+  story: {
+    alignItems: "center",
+    width: 68,
+  },
+  ring: {
+    width: 68,
+    height: 68,
+    borderRadius: 34,
+    borderWidth: 2.5,
+    borderColor: "#6C5CE7",
+    padding: 3,
+  },
+  ringViewed: {
+    borderColor: "#ddd",
+  },
+  avatar: {
+    width: "100%",
+    height: "100%",
+    borderRadius: 30,
+    backgroundColor: "#f0f0f0",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  username: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#333",
+    marginTop: 4,
+  },
+  usernameViewed: {
+    color: "#999",
+  },
+});
+
+export default StoryAvatarRow;
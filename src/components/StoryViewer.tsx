@@ -0,0 +1,376 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  Pressable,
+  StyleSheet,
+  Image,
+  Animated,
+  Easing,
+  PanResponder,
+  Dimensions,
+  GestureResponderEvent,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { CachedImage } from "./CachedImage";
+import { StoryGroup } from "../types";
+
+const { width } = Dimensions.get("window");
+
+const STORY_DURATION = 5000;
+const SWIPE_THRESHOLD = 60;
+const HOLD_DELAY = 200; // Presses longer than this pause instead of advancing
+
+interface StoryViewerProps {
+  groups: StoryGroup[];
+  initialGroupIndex: number | null; // Null hides the viewer
+  onClose: () => void;
+  onViewed: (completionId: string) => void;
+}
+
+interface Position {
+  group: number;
+  item: number;
+}
+
+const formatTimeAgo = (dateString: string) => {
+  const minutes = Math.floor(
+    (Date.now() - new Date(dateString).getTime()) / 60000
+  );
+  if (minutes < 1) return "now";
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h`;
+};
+
+// Full-screen player for friends' completions from today. Like
+// DaySlideshow it advances on a timer; tap the left or right side to skip,
+// hold to pause, swipe sideways to change friend and down to close.
+const StoryViewer: React.FC<StoryViewerProps> = ({
+  groups,
+  initialGroupIndex,
+  onClose,
+  onViewed,
+}) => {
+  const [position, setPosition] = useState<Position>({ group: 0, item: 0 });
+  const positionRef = useRef(position);
+  const progress = useRef(new Animated.Value(0)).current;
+  const pausedAtRef = useRef(0);
+  const visible = initialGroupIndex !== null;
+
+  useEffect(() => {
+    if (initialGroupIndex !== null) {
+      positionRef.current = { group: initialGroupIndex, item: 0 };
+      setPosition(positionRef.current);
+    }
+  }, [initialGroupIndex]);
+
+  const goTo = (next: Position | null) => {
+    if (!next) {
+      onClose();
+      return;
+    }
+    positionRef.current = next;
+    setPosition(next);
+  };
+
+  const nextItem = () => {
+    const { group, item } = positionRef.current;
+    if (item < (groups[group]?.items.length ?? 0) - 1) {
+      goTo({ group, item: item + 1 });
+    } else {
+      goTo(group < groups.length - 1 ? { group: group + 1, item: 0 } : null);
+    }
+  };
+
+  const previousItem = () => {
+    const { group, item } = positionRef.current;
+    if (item > 0) {
+      goTo({ group, item: item - 1 });
+    } else if (group > 0) {
+      goTo({ group: group - 1, item: 0 });
+    } else {
+      startProgress(0); // Restart the first story rather than closing
+    }
+  };
+
+  const nextGroup = () => {
+    const { group } = positionRef.current;
+    goTo(group < groups.length - 1 ? { group: group + 1, item: 0 } : null);
+  };
+
+  const previousGroup = () => {
+    const { group } = positionRef.current;
+    if (group > 0) goTo({ group: group - 1, item: 0 });
+  };
+
+  const startProgress = (from: number) => {
+    progress.setValue(from);
+    Animated.timing(progress, {
+      toValue: 1,
+      duration: STORY_DURATION * (1 - from),
+      easing: Easing.linear,
+      useNativeDriver: false,
+    }).start(({ finished }) => {
+      if (finished) nextItem();
+    });
+  };
+
+  const current = visible
+    ? groups[position.group]?.items[position.item]
+    : undefined;
+
+  useEffect(() => {
+    if (!current) return;
+
+    onViewed(current.id);
+    startProgress(0);
+
+    return () => progress.stopAnimation();
+  }, [current?.id]);
+
+  const pause = () => {
+    progress.stopAnimation((value) => {
+      pausedAtRef.current = value;
+    });
+  };
+
+  const resume = () => {
+    if (current) startProgress(pausedAtRef.current);
+  };
+
+  const handleTap = (event: GestureResponderEvent) => {
+    if (event.nativeEvent.locationX < width / 3) {
+      previousItem();
+    } else {
+      nextItem();
+    }
+  };
+
+  // The responder is created once, so it reaches the latest handlers here
+  const onCloseRef = useRef(onClose);
+  const swipeRef = useRef({ next: nextGroup, previous: previousGroup });
+  const pauseRef = useRef(pause);
+  const resumeRef = useRef(resume);
+  onCloseRef.current = onClose;
+  pauseRef.current = pause;
+  swipeRef.current = { next: nextGroup, previous: previousGroup };
+  resumeRef.current = resume;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, { dx, dy }) =>
+        Math.abs(dx) > 20 || dy > 20,
+      onPanResponderGrant: () => pauseRef.current(),
+      onPanResponderRelease: (_, { dx, dy }) => {
+        if (dy > SWIPE_THRESHOLD && Math.abs(dy) > Math.abs(dx)) {
+          onCloseRef.current();
+        } else if (dx < -SWIPE_THRESHOLD) {
+          swipeRef.current.next();
+        } else if (dx > SWIPE_THRESHOLD) {
+          swipeRef.current.previous();
+        } else {
+          resumeRef.current();
+        }
+      },
+      onPanResponderTerminate: () => resumeRef.current(),
+    })
+  ).current;
+
+  const group = groups[position.group];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      onRequestClose={onClose}
+      statusBarTranslucent
+    >
+      <View style={styles.container} {...panResponder.panHandlers}>
+        {group && current && (
+          <>
+            <Pressable
+              style={StyleSheet.absoluteFill}
+              onPress={handleTap}
+              onPressIn={pause}
+              onPressOut={resume}
+              onLongPress={() => {}}
+              delayLongPress={HOLD_DELAY}
+            >
+              {current.completion.image_url && (
+                <CachedImage
+                  source={{ uri: current.completion.image_url }}
+                  style={styles.image}
+                  resizeMode="cover"
+                />
+              )}
+              {current.completion.front_image_url && (
+                <CachedImage
+                  source={{ uri: current.completion.front_image_url }}
+                  style={styles.frontImage}
+                  resizeMode="cover"
+                />
+              )}
+            </Pressable>
+
+            <View style={styles.progressRow} pointerEvents="none">
+              {group.items.map((item, index) => (
+                <View key={item.id} style={styles.progressTrack}>
+                  <Animated.View
+                    style={[
+                      styles.progressFill,
+                      {
+                        width:
+                          index < position.item
+                            ? "100%"
+                            : index === position.item
+                              ? progress.interpolate({
+                                  inputRange: [0, 1],
+                                  outputRange: ["0%", "100%"],
+                                })
+                              : "0%",
+                      },
+                    ]}
+                  />
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.header}>
+              <View style={styles.avatar}>
+                {group.user.avatar_url ? (
+                  <Image
+                    source={{ uri: group.user.avatar_url }}
+                    style={styles.avatar}
+                  />
+                ) : (
+                  <Ionicons name="person" size={16} color="#666" />
+                )}
+              </View>
+              <Text style={styles.username}>{group.user.username}</Text>
+              <Text style={styles.timeAgo}>
+                {formatTimeAgo(current.created_at)}
+              </Text>
+              <View style={styles.headerSpacer} />
+              <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+                <Ionicons name="close" size={28} color="#fff" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.footer} pointerEvents="none">
+              <View
+                style={[
+                  styles.habitBadge,
+                  { backgroundColor: current.habit.color },
+                ]}
+              >
+                <Text style={styles.habitTitle}>{current.habit.title}</Text>
+              </View>
+              {current.completion.notes && (
+                <Text style={styles.notes}>{current.completion.notes}</Text>
+              )}
+            </View>
+          </>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  image: {
+    width: "100%",
+    height: "100%",
+  },
+  frontImage: {
+    position: "absolute",
+    top: 110,
+    left: 16,
+    width: width * 0.3,
+    aspectRatio: 3 / 4,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "#000",
+  },
+  progressRow: {
+    position: "absolute",
+    top: 54,
+    left: 8,
+    right: 8,
+    flexDirection: "row",
+    gap: 4,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 3,
+    borderRadius: 1.5,
+    backgroundColor: "rgba(255, 255, 255, 0.35)",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: "#fff",
+  },
+  header: {
+    position: "absolute",
+    top: 66,
+    left: 16,
+    right: 8,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "#f0f0f0",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  username: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fff",
+    marginLeft: 10,
+  },
+  timeAgo: {
+    fontSize: 14,
+    color: "rgba(255, 255, 255, 0.7)",
+    marginLeft: 8,
+  },
+  headerSpacer: {
+    flex: 1,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  footer: {
+    position: "absolute",
+    bottom: 48,
+    left: 16,
+    right: 16,
+  },
+  habitBadge: {
+    alignSelf: "flex-start",
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  habitTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  notes: {
+    fontSize: 15,
+    color: "#fff",
+    marginTop: 10,
+  },
+});
+
+export default StoryViewer;
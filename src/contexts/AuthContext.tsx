@@ -2,6 +2,7 @@ import React, { createContext, useContext, useEffect, useState } from "react";
 import { Session, User as SupabaseUser } from "@supabase/supabase-js";
 import { supabase } from "../services/supabase";
 import { User, AuthState } from "../types";
+import { getDeviceTimeZone } from "../utils/dates";
 
 interface AuthContextType extends AuthState {
   signIn: (
@@ -72,6 +73,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         .single();
 
       if (error) throw error;
+
+      // Accounts without a home timezone adopt the device's
+      if (!data.timezone) {
+        const timezone = getDeviceTimeZone();
+        const { error: timezoneError } = await supabase
+          .from("users")
+          .update({ timezone })
+          .eq("id", userId);
+
+        if (!timezoneError) data.timezone = timezone;
+      }
+
       setUser(data);
     } catch (err) {
       console.error("Error fetching user profile:", err);
@@ -4,17 +4,50 @@ import React, {
   useState,
   ReactNode,
   useCallback,
+  useEffect,
+  useMemo,
 } from "react";
 import { Alert } from "react-native";
-import { supabase, BUCKETS } from "../services/supabase";
-import { Habit, HabitStats, HabitCompletion } from "../types";
+import { supabase, BUCKETS, getHabitImagePath } from "../services/supabase";
+import {
+  Habit,
+  HabitStats,
+  HabitCompletion,
+  HabitVisibility,
+  RestPeriod,
+  StreakFreeze,
+} from "../types";
 import { useAuth } from "./AuthContext";
+import {
+  getPeriodKey,
+  getPreviousPeriodKey,
+  getTargetCount,
+  isScheduledDay,
+} from "../utils/frequency";
+import {
+  getCompletionDateKey,
+  resolveTimeZone,
+  toDateKey,
+} from "../utils/dates";
+import {
+  computeHabitStats,
+  countCompletionsInPeriod,
+  getRestDays,
+} from "../utils/habitStats";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  syncHabitReminders,
+  syncStreakNudges,
+} from "../services/notifications";
+import { useUpload } from "./UploadContext";
 
 export interface HabitWithStats extends Habit {
   stats: HabitStats;
   completedToday: boolean;
+  completedThisPeriod: boolean; // Target met within the current day/week/month
+  periodCompletions: number;
   completions: HabitCompletion[];
+  frozenDays: string[]; // Day keys protected by a streak freeze
 }
 
 interface HabitContextType {
@@ -26,11 +59,67 @@ interface HabitContextType {
   addHabitCompletion: (habitId: string, completion: HabitCompletion) => void;
   deleteHabit: (habitId: string) => void; // Non-async return for optimistic update
   updateHabit: (habitId: string, updates: Partial<Habit>) => void;
-  updateHabitPrivacy: (habit: HabitWithStats) => Promise<void>;
+  updateHabitPrivacy: (
+    habit: HabitWithStats,
+    visibility: HabitVisibility,
+    audienceListId?: string | null
+  ) => Promise<void>;
+  restPeriods: RestPeriod[];
+  restDays: string[];
+  postedToday: boolean; // Any completion today, including one still uploading
+  spendStreakFreeze: (habitId: string, dateKey: string) => Promise<boolean>;
+  addRestPeriod: (startDate: string, endDate: string) => Promise<void>;
+  deleteRestPeriod: (restPeriodId: string) => Promise<void>;
 }
 
 const HabitContext = createContext<HabitContextType | undefined>(undefined);
 
+const withStats = (
+  habit: Habit,
+  completions: HabitCompletion[],
+  frozenDays: string[],
+  restDays: string[],
+  timeZone: string
+): HabitWithStats => {
+  const todayKey = toDateKey(new Date(), timeZone);
+  const periodCompletions = countCompletionsInPeriod(
+    completions,
+    habit,
+    timeZone
+  );
+
+  return {
+    ...habit,
+    stats: computeHabitStats({
+      habitId: habit.id,
+      completions,
+      schedule: habit,
+      timeZone,
+      createdAt: habit.created_at,
+      protectedDays: [...frozenDays, ...restDays],
+    }),
+    completedToday: completions.some(
+      (completion) => getCompletionDateKey(completion, timeZone) === todayKey
+    ),
+    completedThisPeriod: periodCompletions >= getTargetCount(habit),
+    periodCompletions,
+    completions,
+    frozenDays,
+  };
+};
+
+// Most recent finished period the habit was scheduled for
+const getPreviousScheduledPeriodKey = (habit: Habit, timeZone: string) => {
+  let key = getPreviousPeriodKey(
+    getPeriodKey(toDateKey(new Date(), timeZone), habit.frequency),
+    habit.frequency
+  );
+  for (let i = 0; i < 7 && !isScheduledDay(key, habit); i++) {
+    key = getPreviousPeriodKey(key, habit.frequency);
+  }
+  return key;
+};
+
 export const useHabits = () => {
   const context = useContext(HabitContext);
   if (!context) {
@@ -45,126 +134,109 @@ export const HabitProvider: React.FC<{ children: ReactNode }> = ({
   const [habits, setHabits] = useState<HabitWithStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const { user } = useAuth();
-
-  const fetchHabitStats = async (habitId: string): Promise<HabitStats> => {
-    try {
-      const { data, error } = await supabase
-        .from("habit_completions")
-        .select("completed_at")
-        .eq("habit_id", habitId)
-        .order("completed_at", { ascending: false });
-
-      if (error) throw error;
-
-      const completions = data || [];
-      const totalCompletions = completions.length;
-
-      // Calculate current streak
-      let currentStreak = 0;
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      if (completions.length > 0) {
-        // Check if the most recent completion is today or yesterday
-        const mostRecentDate = new Date(completions[0].completed_at);
-        mostRecentDate.setHours(0, 0, 0, 0);
-
-        const daysSinceLastCompletion = Math.floor(
-          (today.getTime() - mostRecentDate.getTime()) / (1000 * 60 * 60 * 24)
-        );
+  const [restPeriods, setRestPeriods] = useState<RestPeriod[]>([]);
+  const { user, refreshUser } = useAuth();
+  const { uploads } = useUpload();
+  const timeZone = resolveTimeZone(user?.timezone);
+  const restDays = useMemo(() => getRestDays(restPeriods), [restPeriods]);
+
+  // Keep local reminders in step with the habits; signing out clears them
+  useEffect(() => {
+    if (!user) {
+      syncHabitReminders([]);
+      return;
+    }
+    if (!loading) syncHabitReminders(habits);
+  }, [habits, user, loading]);
+
+  // Habits with an upload still in flight are as good as done
+  const todayKey = toDateKey(new Date(), timeZone);
+  const postedToday =
+    habits.some((habit) => habit.completedToday) ||
+    Object.values(uploads).some(
+      (upload) => upload.status !== "error" && upload.localDate === todayKey
+    );
 
-        // If the last completion was more than 1 day ago, streak is broken
-        if (daysSinceLastCompletion <= 1) {
-          // Start counting streak from the most recent completion
-          let expectedDate = new Date(mostRecentDate);
-
-          for (let i = 0; i < completions.length; i++) {
-            const completionDate = new Date(completions[i].completed_at);
-            completionDate.setHours(0, 0, 0, 0);
-
-            // Check if this completion matches the expected date
-            if (completionDate.getTime() === expectedDate.getTime()) {
-              currentStreak++;
-              // Move expected date back by one day for next iteration
-              expectedDate.setDate(expectedDate.getDate() - 1);
-            } else {
-              // Gap found, streak is broken
-              break;
-            }
-          }
-        }
-      }
+  // Backdated captures still in flight don't count for today
+  const uploadingHabitIds = [
+    ...new Set(
+      Object.values(uploads)
+        .filter(
+          (upload) =>
+            ["uploading", "waiting"].includes(upload.status) &&
+            upload.localDate === todayKey
+        )
+        .map((upload) => upload.habitId)
+    ),
+  ]
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    if (!user) {
+      syncStreakNudges([], null, [], []);
+      return;
+    }
+    if (loading) return;
+    syncStreakNudges(
+      habits,
+      user.streak_nudge_hour,
+      uploadingHabitIds ? uploadingHabitIds.split(",") : [],
+      restDays
+    );
+  }, [habits, user, loading, uploadingHabitIds, restDays]);
+
+  // Spend freezes on periods that just ended unfinished, if that keeps a
+  // streak alive and the user opted in
+  const autoFreezeMissedPeriods = async (
+    habitsWithStats: HabitWithStats[],
+    currentRestDays: string[]
+  ) => {
+    let tokens = user?.streak_freeze_tokens ?? 0;
+    if (!user?.auto_streak_freeze || tokens <= 0) return habitsWithStats;
+
+    const result: HabitWithStats[] = [];
+    const savedTitles: string[] = [];
+
+    for (const habit of habitsWithStats) {
+      const previousKey = getPreviousScheduledPeriodKey(habit, timeZone);
+      const candidate = withStats(
+        habit,
+        habit.completions,
+        [...habit.frozenDays, previousKey],
+        currentRestDays,
+        timeZone
+      );
 
-      // Calculate longest streak by analyzing all completion history
-      let longestStreak = 0;
-      if (completions.length > 0) {
-        let tempStreak = 1;
-        longestStreak = 1;
-
-        for (let i = 1; i < completions.length; i++) {
-          const currentDate = new Date(completions[i - 1].completed_at);
-          const previousDate = new Date(completions[i].completed_at);
-          currentDate.setHours(0, 0, 0, 0);
-          previousDate.setHours(0, 0, 0, 0);
-
-          const daysDiff = Math.floor(
-            (currentDate.getTime() - previousDate.getTime()) /
-              (1000 * 60 * 60 * 24)
-          );
-
-          if (daysDiff === 1) {
-            // Consecutive days
-            tempStreak++;
-            longestStreak = Math.max(longestStreak, tempStreak);
-          } else {
-            // Gap found, reset streak
-            tempStreak = 1;
-          }
+      if (
+        tokens > 0 &&
+        candidate.stats.current_streak > habit.stats.current_streak
+      ) {
+        const { error } = await supabase.rpc("spend_streak_freeze", {
+          p_habit_id: habit.id,
+          p_frozen_on: previousKey,
+        });
+
+        if (!error) {
+          tokens--;
+          savedTitles.push(habit.title);
+          result.push(candidate);
+          continue;
         }
+        console.warn("Auto streak freeze failed:", error);
       }
-
-      return {
-        habit_id: habitId,
-        current_streak: currentStreak,
-        longest_streak: longestStreak,
-        total_completions: totalCompletions,
-        completion_rate: 0, // Simplified for now
-        last_completed: completions[0]?.completed_at || null,
-      };
-    } catch (error) {
-      console.error("Error fetching habit stats:", error);
-      return {
-        habit_id: habitId,
-        current_streak: 0,
-        longest_streak: 0,
-        total_completions: 0,
-        completion_rate: 0,
-        last_completed: null,
-      };
+      result.push(habit);
     }
-  };
 
-  const checkCompletedToday = async (habitId: string): Promise<boolean> => {
-    try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-
-      const { data, error } = await supabase
-        .from("habit_completions")
-        .select("id")
-        .eq("habit_id", habitId)
-        .gte("completed_at", today.toISOString())
-        .lt("completed_at", tomorrow.toISOString());
-
-      if (error) throw error;
-      return (data || []).length > 0;
-    } catch (error) {
-      console.error("Error checking today completion:", error);
-      return false;
+    if (savedTitles.length > 0) {
+      Alert.alert(
+        "Streak Freeze Used",
+        `Your streak for ${savedTitles.join(", ")} was protected.`
+      );
+      refreshUser();
     }
+
+    return result;
   };
 
   const fetchHabits = useCallback(async () => {
@@ -189,21 +261,40 @@ export const HabitProvider: React.FC<{ children: ReactNode }> = ({
 
       if (completionsError) throw completionsError;
 
-      // Fetch stats and today's completions for each habit
-      const habitsWithStats = await Promise.all(
-        (habitsData || []).map(async (habit) => {
-          const stats = await fetchHabitStats(habit.id);
-          const completedToday = await checkCompletedToday(habit.id);
-          const habitCompletions = (completions || []).filter(
-            (completion) => completion.habit_id === habit.id
-          );
-          return {
-            ...habit,
-            stats,
-            completedToday,
-            completions: habitCompletions,
-          };
-        })
+      // Fetch streak freezes and rest periods that protect missed days
+      const [freezesResult, restPeriodsResult] = await Promise.all([
+        supabase.from("streak_freezes").select("*").eq("user_id", user.id),
+        supabase
+          .from("rest_periods")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("start_date", { ascending: false }),
+      ]);
+
+      if (freezesResult.error) throw freezesResult.error;
+      if (restPeriodsResult.error) throw restPeriodsResult.error;
+
+      const freezes: StreakFreeze[] = freezesResult.data || [];
+      const fetchedRestPeriods: RestPeriod[] = restPeriodsResult.data || [];
+      const fetchedRestDays = getRestDays(fetchedRestPeriods);
+      setRestPeriods(fetchedRestPeriods);
+
+      // Derive stats and this period's completions for each habit
+      const habitsWithStats = await autoFreezeMissedPeriods(
+        (habitsData || []).map((habit) =>
+          withStats(
+            habit,
+            (completions || []).filter(
+              (completion) => completion.habit_id === habit.id
+            ),
+            freezes
+              .filter((freeze) => freeze.habit_id === habit.id)
+              .map((freeze) => freeze.frozen_on),
+            fetchedRestDays,
+            timeZone
+          )
+        ),
+        fetchedRestDays
       );
 
       setHabits(habitsWithStats);
@@ -221,21 +312,10 @@ export const HabitProvider: React.FC<{ children: ReactNode }> = ({
   }, [user]);
 
   const addHabit = (habit: Habit) => {
-    const newHabitWithStats: HabitWithStats = {
-      ...habit,
-      stats: {
-        habit_id: habit.id,
-        current_streak: 0,
-        longest_streak: 0,
-        total_completions: 0,
-        completion_rate: 0,
-        last_completed: null,
-      },
-      completedToday: false,
-      completions: [],
-    };
-
-    setHabits((prev) => [newHabitWithStats, ...prev]);
+    setHabits((prev) => [
+      withStats(habit, [], [], restDays, timeZone),
+      ...prev,
+    ]);
   };
 
   const addHabitCompletion = (habitId: string, completion: HabitCompletion) => {
@@ -243,25 +323,15 @@ export const HabitProvider: React.FC<{ children: ReactNode }> = ({
       prev.map((habit) => {
         if (habit.id !== habitId) return habit;
 
-        // If already completed today, don't add duplicate (unless multiple completions allowed, but logic suggests 1/day)
-        // But here we trust the caller (HabitsScreen) which checks for upload completion
-        // We will just prepend the new completion
-
-        const newStats = {
-          ...habit.stats,
-          total_completions: habit.stats.total_completions + 1,
-          current_streak: habit.completedToday
-            ? habit.stats.current_streak
-            : habit.stats.current_streak + 1,
-          last_completed: completion.completed_at,
-        };
-
-        return {
-          ...habit,
-          completedToday: true,
-          stats: newStats,
-          completions: [completion, ...habit.completions],
-        };
+        // We trust the caller (HabitsScreen) which checks for upload completion
+        // and just prepend the new completion before recomputing the stats
+        return withStats(
+          habit,
+          [completion, ...habit.completions],
+          habit.frozenDays,
+          restDays,
+          timeZone
+        );
       })
     );
   };
@@ -287,30 +357,20 @@ export const HabitProvider: React.FC<{ children: ReactNode }> = ({
 
       if (completionsError) throw completionsError;
 
-      // Extract all image URLs that need to be deleted
-      const imageUrls: string[] = [];
-      completions?.forEach((completion) => {
-        if (completion.image_url) {
-          const urlParts = completion.image_url.split("/");
-          const fileName = urlParts[urlParts.length - 1];
-          const userFolder = urlParts[urlParts.length - 2];
-          const habitFolder = urlParts[urlParts.length - 3];
-          imageUrls.push(`${habitFolder}/${userFolder}/${fileName}`);
-        }
-        if (completion.front_image_url) {
-          const urlParts = completion.front_image_url.split("/");
-          const fileName = urlParts[urlParts.length - 1];
-          const userFolder = urlParts[urlParts.length - 2];
-          const habitFolder = urlParts[urlParts.length - 3];
-          imageUrls.push(`${habitFolder}/${userFolder}/${fileName}`);
-        }
-      });
+      // Storage paths of every image that needs to be deleted
+      const imagePaths = (completions || [])
+        .flatMap((completion) => [
+          completion.image_url,
+          completion.front_image_url,
+        ])
+        .map((url) => (url ? getHabitImagePath(url) : null))
+        .filter((path): path is string => !!path);
 
       // Delete all images from storage in the background
-      if (imageUrls.length > 0) {
+      if (imagePaths.length > 0) {
         supabase.storage
           .from(BUCKETS.HABIT_IMAGES)
-          .remove(imageUrls)
+          .remove(imagePaths)
           .then(({ error }) => {
             if (error)
               console.warn("Background storage cleanup failed:", error);
@@ -342,32 +402,55 @@ export const HabitProvider: React.FC<{ children: ReactNode }> = ({
 
   const updateHabit = (habitId: string, updates: Partial<Habit>) => {
     setHabits((prev) =>
-      prev.map((h) => (h.id === habitId ? { ...h, ...updates } : h))
+      prev.map((h) =>
+        // Schedule edits change the streak, so the stats are recomputed
+        h.id === habitId
+          ? withStats(
+              { ...h, ...updates },
+              h.completions,
+              h.frozenDays,
+              restDays,
+              timeZone
+            )
+          : h
+      )
     );
   };
 
-  const updateHabitPrivacy = async (habit: HabitWithStats) => {
+  const updateHabitPrivacy = async (
+    habit: HabitWithStats,
+    visibility: HabitVisibility,
+    audienceListId: string | null = null
+  ) => {
     try {
-      const newIsPublic = !habit.is_public;
+      const previous = {
+        visibility: habit.visibility,
+        is_public: habit.is_public,
+        audience_list_id: habit.audience_list_id ?? null,
+      };
+      const updates = {
+        visibility,
+        is_public: visibility === "public",
+        audience_list_id: visibility === "list" ? audienceListId : null,
+      };
 
       // Optimistic update
       setHabits((prev) =>
-        prev.map((h) =>
-          h.id === habit.id ? { ...h, is_public: newIsPublic } : h
-        )
+        prev.map((h) => (h.id === habit.id ? { ...h, ...updates } : h))
       );
 
       const { error } = await supabase
         .from("habits")
-        .update({ is_public: newIsPublic })
+        .update({
+          visibility,
+          audience_list_id: updates.audience_list_id,
+        })
         .eq("id", habit.id);
 
       if (error) {
         // Revert on error
         setHabits((prev) =>
-          prev.map((h) =>
-            h.id === habit.id ? { ...h, is_public: habit.is_public } : h
-          )
+          prev.map((h) => (h.id === habit.id ? { ...h, ...previous } : h))
         );
         throw error;
       }
@@ -377,6 +460,80 @@ export const HabitProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  const spendStreakFreeze = async (habitId: string, dateKey: string) => {
+    try {
+      const { error } = await supabase.rpc("spend_streak_freeze", {
+        p_habit_id: habitId,
+        p_frozen_on: dateKey,
+      });
+
+      if (error) throw error;
+
+      setHabits((prev) =>
+        prev.map((h) =>
+          h.id === habitId
+            ? withStats(
+                h,
+                h.completions,
+                [...h.frozenDays, dateKey],
+                restDays,
+                timeZone
+              )
+            : h
+        )
+      );
+      await refreshUser();
+      return true;
+    } catch (error: any) {
+      console.error("Error spending streak freeze:", error);
+      Alert.alert("Error", error.message || "Failed to use a streak freeze.");
+      return false;
+    }
+  };
+
+  // Recompute every habit's stats against a new set of rest periods
+  const applyRestPeriods = (nextRestPeriods: RestPeriod[]) => {
+    const nextRestDays = getRestDays(nextRestPeriods);
+    setRestPeriods(nextRestPeriods);
+    setHabits((prev) =>
+      prev.map((h) =>
+        withStats(h, h.completions, h.frozenDays, nextRestDays, timeZone)
+      )
+    );
+  };
+
+  const addRestPeriod = async (startDate: string, endDate: string) => {
+    if (!user) return;
+    try {
+      const { data, error } = await supabase
+        .from("rest_periods")
+        .insert({ user_id: user.id, start_date: startDate, end_date: endDate })
+        .select()
+        .single();
+
+      if (error) throw error;
+      applyRestPeriods([data, ...restPeriods]);
+    } catch (error) {
+      console.error("Error adding rest period:", error);
+      Alert.alert("Error", "Failed to add rest days.");
+    }
+  };
+
+  const deleteRestPeriod = async (restPeriodId: string) => {
+    try {
+      const { error } = await supabase
+        .from("rest_periods")
+        .delete()
+        .eq("id", restPeriodId);
+
+      if (error) throw error;
+      applyRestPeriods(restPeriods.filter((p) => p.id !== restPeriodId));
+    } catch (error) {
+      console.error("Error deleting rest period:", error);
+      Alert.alert("Error", "Failed to remove rest days.");
+    }
+  };
+
   return (
     <HabitContext.Provider
       value={{
@@ -389,6 +546,12 @@ export const HabitProvider: React.FC<{ children: ReactNode }> = ({
         deleteHabit,
         updateHabit,
         updateHabitPrivacy,
+        restPeriods,
+        restDays,
+        postedToday,
+        spendStreakFreeze,
+        addRestPeriod,
+        deleteRestPeriod,
       }}
     >
       {children}
@@ -1,21 +1,50 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { Alert } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as ImageManipulator from 'expo-image-manipulator';
-import { supabase } from '../services/supabase';
+import { supabase, BUCKETS, RESUMABLE_UPLOAD_URL, SUPABASE_ANON_KEY } from '../services/supabase';
+import { createResumableUpload, ResumableUpload, terminateResumableUpload } from '../services/resumableUpload';
+import { useAuth } from './AuthContext';
+import { resolveTimeZone, toDateKey } from '../utils/dates';
+import { cancelHabitRemindersForDay } from '../services/notifications';
 
-interface UploadState {
+// Captured photos are resized into here so a queued upload survives a
+// restart and a resumed upload continues with the same bytes
+const QUEUE_DIRECTORY = `${FileSystem.documentDirectory}upload-queue/`;
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+const MAX_AUTO_RETRIES = 8; // After this the job waits for a manual retry
+const UPLOADED_PROGRESS = 95; // The rest is recording the completion
+const CANCELLED_MESSAGE = 'Upload cancelled';
+
+export interface UploadState {
+  habitId: string;
   progress: number;
-  status: 'uploading' | 'completed' | 'error';
-  backUri: string;
+  status: 'uploading' | 'waiting' | 'completed' | 'error';
+  backUri: string; // Queued copy while pending, the stored URL once completed
   frontUri: string;
+  localDate: string; // Day the completion counts for
+  completedAt: string; // When the photos were taken
+  userId: string;
+  fileStamp: number; // Keeps storage paths stable across retries
+  idempotencyKey: string; // One per capture, so a replayed insert is a no-op; also the job's key
+  attempts: number;
+  nextAttemptAt?: number;
+  backUrl?: string; // Set once each image is stored, so retries skip it
+  frontUrl?: string;
+  backUploadUrl?: string; // TUS upload for each image, so a retry resumes it
+  frontUploadUrl?: string;
   error?: string;
 }
 
 interface UploadContextType {
-  uploads: Record<string, UploadState>;
+  uploads: Record<string, UploadState>; // Keyed by idempotencyKey
   startUpload: (habitId: string, backUri: string, frontUri: string, userId: string, selectedDate?: string) => Promise<void>;
-  clearUpload: (habitId: string) => void;
+  retryUpload: (uploadId: string) => void;
+  cancelUpload: (uploadId: string) => Promise<void>;
+  discardUpload: (uploadId: string) => Promise<void>;
+  clearUpload: (uploadId: string) => void;
 }
 
 const UploadContext = createContext<UploadContextType | undefined>(undefined);
@@ -32,159 +61,506 @@ interface UploadProviderProps {
   children: ReactNode;
 }
 
+const getQueueKey = (userId: string) => `upload_queue_${userId}`;
+
+// 5s, 10s, 20s... capped at five minutes
+const getRetryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+
+// Network failures and server errors are worth retrying; anything the
+// database or storage rejected outright will fail the same way again
+const isRetryableError = (error: any) => {
+  const status = Number(error?.status ?? error?.statusCode);
+  if (status) return status >= 500 || status === 408 || status === 429;
+  return !error?.code;
+};
+
+// Paths are fixed per capture, so an object left by an attempt whose
+// response never arrived is reused rather than uploaded twice
+const getImagePath = (upload: UploadState, side: 'back' | 'front') =>
+  `${upload.userId}/${upload.habitId}/${side}_${upload.fileStamp}.jpg`;
+
+// Removing a path that was never written is a no-op
+const removeStoredImages = async (upload: UploadState) => {
+  const { error } = await supabase.storage
+    .from(BUCKETS.HABIT_IMAGES)
+    .remove([getImagePath(upload, 'back'), getImagePath(upload, 'front')]);
+  if (error) throw error;
+};
+
+// A 404 resolves to false; other failures throw
+const isImageStored = async (upload: UploadState, side: 'back' | 'front') => {
+  const { data } = await supabase.storage
+    .from(BUCKETS.HABIT_IMAGES)
+    .exists(getImagePath(upload, side));
+  return data;
+};
+
+// Paths the jobs still queued on this device have stored or will store, so
+// a storage clean-up leaves them alone
+export const getPendingImagePaths = (uploads: Record<string, UploadState>) =>
+  Object.values(uploads)
+    .filter((upload) => upload.status !== 'completed')
+    .flatMap((upload) => [getImagePath(upload, 'back'), getImagePath(upload, 'front')]);
+
+const deleteQueuedFiles = (upload: UploadState) =>
+  Promise.all(
+    [upload.backUri, upload.frontUri]
+      .filter((uri) => uri.startsWith(QUEUE_DIRECTORY))
+      .map((uri) => FileSystem.deleteAsync(uri, { idempotent: true }))
+  ).catch((error) => console.error('Error deleting queued photos:', error));
+
 export const UploadProvider: React.FC<UploadProviderProps> = ({ children }) => {
   const [uploads, setUploads] = useState<Record<string, UploadState>>({});
+  const uploadsRef = useRef<Record<string, UploadState>>({});
+  const retryTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const tasksRef = useRef<Record<string, ResumableUpload[]>>({});
+  const cancelledRef = useRef<Set<string>>(new Set());
+  const { user } = useAuth();
+
+  // Every change goes through here so the ref used by the async job runner
+  // and the copy on disk stay in step with state
+  const commitUploads = (next: Record<string, UploadState>, persist = true) => {
+    uploadsRef.current = next;
+    setUploads(next);
+    if (!persist || !user) return;
 
-  const base64ToUint8Array = (base64: string): Uint8Array => {
-    const binaryString = globalThis.atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
+    const pending = Object.fromEntries(
+      Object.entries(next).filter(([, upload]) => upload.status !== 'completed')
+    );
+    AsyncStorage.setItem(getQueueKey(user.id), JSON.stringify(pending)).catch(
+      (error) => console.error('Error saving upload queue:', error)
+    );
+  };
+
+  // Progress ticks skip the disk write
+  const updateUpload = (uploadId: string, changes: Partial<UploadState>, persist = true) => {
+    const current = uploadsRef.current[uploadId];
+    if (!current) return;
+    commitUploads({ ...uploadsRef.current, [uploadId]: { ...current, ...changes } }, persist);
+  };
+
+  const scheduleRetry = (uploadId: string, delay: number) => {
+    clearTimeout(retryTimersRef.current[uploadId]);
+    retryTimersRef.current[uploadId] = setTimeout(() => {
+      delete retryTimersRef.current[uploadId];
+      runUpload(uploadId);
+    }, delay);
+  };
+
+  // Resume whatever was left in the queue when the app was last closed
+  useEffect(() => {
+    if (!user) {
+      Object.values(retryTimersRef.current).forEach(clearTimeout);
+      retryTimersRef.current = {};
+      commitUploads({}, false);
+      return;
     }
-    return bytes;
+
+    const restoreQueue = async () => {
+      try {
+        const stored = await AsyncStorage.getItem(getQueueKey(user.id));
+        if (!stored) return;
+
+        const queue: Record<string, UploadState> = JSON.parse(stored);
+        const restored: Record<string, UploadState> = {};
+        for (const [key, saved] of Object.entries(queue)) {
+          // Older queues were keyed by habit and didn't store it in the job
+          const upload = { ...saved, habitId: saved.habitId ?? key };
+          const [back, front] = await Promise.all([
+            FileSystem.getInfoAsync(upload.backUri),
+            FileSystem.getInfoAsync(upload.frontUri),
+          ]);
+          if (!back.exists || !front.exists) continue; // Photos are gone
+
+          // Jobs killed mid-upload pick up again now; failed ones stay put
+          restored[upload.idempotencyKey] =
+            upload.status === 'error'
+              ? upload
+              : { ...upload, status: 'waiting', progress: 0, nextAttemptAt: Date.now() };
+        }
+
+        commitUploads({ ...restored, ...uploadsRef.current });
+        Object.entries(restored).forEach(([uploadId, upload]) => {
+          if (upload.status === 'waiting') scheduleRetry(uploadId, 0);
+        });
+      } catch (error) {
+        console.error('Error restoring upload queue:', error);
+      }
+    };
+
+    restoreQueue();
+
+    return () => {
+      Object.values(retryTimersRef.current).forEach(clearTimeout);
+      retryTimersRef.current = {};
+    };
+  }, [user?.id]);
+
+  const resizeImage = async (imageUri: string, destination: string) => {
+    const manipulatedImage = await ImageManipulator.manipulateAsync(
+      imageUri,
+      [{ resize: { width: 1280 } }],
+      {
+        compress: 0.6,
+        format: ImageManipulator.SaveFormat.JPEG,
+      }
+    );
+    await FileSystem.moveAsync({ from: manipulatedImage.uri, to: destination });
+  };
+
+  const getFileSize = async (uri: string) => {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : 0;
   };
 
+  const getUploadHeaders = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return {
+      Authorization: `Bearer ${session?.access_token ?? SUPABASE_ANON_KEY}`,
+      apikey: SUPABASE_ANON_KEY,
+      'x-upsert': 'false',
+    };
+  };
+
+  // Sent to the Storage API's TUS endpoint in chunks. The upload URL is
+  // saved with the job, so a retry or a restart carries on from the last
+  // chunk the server has instead of sending the whole image again.
   const uploadImage = async (
-    imageUri: string,
-    fileName: string
-  ): Promise<string | null> => {
+    uploadId: string,
+    side: 'back' | 'front',
+    size: number,
+    onProgress: (bytesSent: number) => void
+  ): Promise<string> => {
+    const job = uploadsRef.current[uploadId];
+    const imageUri = side === 'back' ? job.backUri : job.frontUri;
+    const fileName = getImagePath(job, side);
+    const uploadUrlKey = side === 'back' ? 'backUploadUrl' : 'frontUploadUrl';
+
+    const task = createResumableUpload({
+      endpoint: RESUMABLE_UPLOAD_URL,
+      fileUri: imageUri,
+      size,
+      headers: await getUploadHeaders(),
+      metadata: {
+        bucketName: BUCKETS.HABIT_IMAGES,
+        objectName: fileName,
+        contentType: 'image/jpeg',
+        cacheControl: '3600',
+      },
+      uploadUrl: job[uploadUrlKey],
+      onUploadUrl: (uploadUrl) => updateUpload(uploadId, { [uploadUrlKey]: uploadUrl }),
+      onProgress,
+    });
+    (tasksRef.current[uploadId] ||= []).push(task);
+
+    try {
+      await task.start();
+    } catch (error) {
+      console.error("Upload error:", error);
+      throw error;
+    } finally {
+      tasksRef.current[uploadId] = (tasksRef.current[uploadId] || []).filter((t) => t !== task);
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from("habit-images").getPublicUrl(fileName);
+
+    // Cache the image immediately
     try {
-      const manipulatedImage = await ImageManipulator.manipulateAsync(
-        imageUri,
-        [{ resize: { width: 1280 } }],
-        {
-          compress: 0.6,
-          format: ImageManipulator.SaveFormat.JPEG,
+      const cacheFilename =
+        publicUrl.split("/").pop()?.split("?")[0] || "temp_img";
+      const sanitizedFilename = cacheFilename.replace(/[^a-zA-Z0-9.]/g, "_");
+      const cachePath = `${FileSystem.cacheDirectory}${sanitizedFilename}`;
+
+      await FileSystem.copyAsync({
+        from: imageUri,
+        to: cachePath,
+      });
+    } catch (cacheError) {
+      console.error("Error caching uploaded image:", cacheError);
+    }
+
+    return publicUrl;
+  };
+
+  // Resize the camera files into the queue directory, then upload
+  const startUpload = async (habitId: string, backUri: string, frontUri: string, userId: string, selectedDate?: string) => {
+    // The database rejects the insert too; this just fails before uploading
+    if (user?.suspended_at) {
+      Alert.alert("Account Suspended", "Your account has been suspended, so you can't post right now.");
+      return;
+    }
+
+    // Backdated dates come from a calendar cell built on the device clock
+    const localDate = selectedDate
+      ? toDateKey(new Date(selectedDate))
+      : toDateKey(new Date(), resolveTimeZone(user?.timezone));
+    const completedAt = (selectedDate ? new Date(selectedDate) : new Date()).toISOString();
+    const fileStamp = Date.now();
+    const idempotencyKey = `${habitId}_${fileStamp}_${Math.random().toString(36).slice(2, 10)}`;
+
+    try {
+      await FileSystem.makeDirectoryAsync(QUEUE_DIRECTORY, { intermediates: true });
+      const queuedBackUri = `${QUEUE_DIRECTORY}${habitId}_${fileStamp}_back.jpg`;
+      const queuedFrontUri = `${QUEUE_DIRECTORY}${habitId}_${fileStamp}_front.jpg`;
+      await Promise.all([
+        resizeImage(backUri, queuedBackUri),
+        resizeImage(frontUri, queuedFrontUri),
+      ]);
+
+      // Each capture is its own job, alongside any others for the habit
+      commitUploads({
+        ...uploadsRef.current,
+        [idempotencyKey]: {
+          habitId,
+          progress: 0,
+          status: 'uploading',
+          backUri: queuedBackUri,
+          frontUri: queuedFrontUri,
+          localDate,
+          completedAt,
+          userId,
+          fileStamp,
+          idempotencyKey,
+          attempts: 0,
         }
-      );
+      });
+    } catch (error) {
+      console.error("Error queueing upload:", error);
+      Alert.alert("Upload Failed", "Your photos could not be saved for upload. Please try again.");
+      return;
+    }
+
+    await runUpload(idempotencyKey);
+  };
+
+  const runUpload = async (uploadId: string) => {
+    let job = uploadsRef.current[uploadId];
+    if (!job || job.status === 'completed') return;
+
+    cancelledRef.current.delete(uploadId);
+    updateUpload(uploadId, { status: 'uploading', progress: 0, error: undefined, nextAttemptAt: undefined });
+
+    try {
+      // Images an earlier attempt stored may have been removed since, e.g.
+      // by a storage clean-up on another device, so any gone are sent again
+      const [backStored, frontStored] = await Promise.all([
+        !job.backUrl || isImageStored(job, 'back'),
+        !job.frontUrl || isImageStored(job, 'front'),
+      ]);
+      if (!backStored) updateUpload(uploadId, { backUrl: undefined, backUploadUrl: undefined });
+      if (!frontStored) updateUpload(uploadId, { frontUrl: undefined, frontUploadUrl: undefined });
+      job = uploadsRef.current[uploadId];
 
-      const base64 = await FileSystem.readAsStringAsync(manipulatedImage.uri, {
-        encoding: "base64",
+      // Sizes first so the byte total is known before anything is sent
+      const [backSize, frontSize] = await Promise.all([
+        job.backUrl ? 0 : getFileSize(job.backUri),
+        job.frontUrl ? 0 : getFileSize(job.frontUri),
+      ]);
+      if (cancelledRef.current.has(uploadId)) throw new Error(CANCELLED_MESSAGE);
+      const totalBytes = backSize + frontSize;
+      const bytesSent = { back: 0, front: 0 };
+      const trackProgress = (side: 'back' | 'front') => (sent: number) => {
+        bytesSent[side] = sent;
+        const progress = totalBytes > 0
+          ? Math.floor(((bytesSent.back + bytesSent.front) / totalBytes) * UPLOADED_PROGRESS)
+          : 0;
+        if (progress !== uploadsRef.current[uploadId]?.progress) {
+          updateUpload(uploadId, { progress }, false);
+        }
+      };
+
+      // Both images go up in parallel; each URL is saved as soon as it's
+      // stored so a retry only sends what's missing
+      const [backUrl, frontUrl] = await Promise.all([
+        job.backUrl ?? uploadImage(uploadId, 'back', backSize, trackProgress('back'))
+          .then((url) => {
+            updateUpload(uploadId, { backUrl: url });
+            return url;
+          }),
+        job.frontUrl ?? uploadImage(uploadId, 'front', frontSize, trackProgress('front'))
+          .then((url) => {
+            updateUpload(uploadId, { frontUrl: url });
+            return url;
+          }),
+      ]);
+      if (cancelledRef.current.has(uploadId)) throw new Error(CANCELLED_MESSAGE);
+      updateUpload(uploadId, { progress: UPLOADED_PROGRESS });
+
+      // Inserts the row once per idempotency key; a replay returns it again
+      const { error } = await supabase.rpc("record_completion", {
+        p_idempotency_key: job.idempotencyKey,
+        p_habit_id: job.habitId,
+        p_image_url: backUrl,
+        p_front_image_url: frontUrl,
+        p_completed_at: job.completedAt,
+        p_local_date: job.localDate,
       });
 
-      const uint8Array = base64ToUint8Array(base64);
+      if (error) throw error;
 
-      const { data, error } = await supabase.storage
-        .from("habit-images")
-        .upload(fileName, uint8Array, {
-          contentType: "image/jpeg",
-          upsert: false,
-        });
+      // No need to be reminded about a habit that is already done today
+      cancelHabitRemindersForDay(job.habitId, toDateKey(new Date(job.completedAt))).catch(
+        (error) => console.error("Error cancelling reminders:", error)
+      );
 
-      if (error) {
-        console.error("Upload error:", error);
-        return null;
+      // Screens showing the new completion switch to the stored images,
+      // which uploadImage has already put in the image cache
+      await deleteQueuedFiles(job);
+      updateUpload(uploadId, {
+        progress: 100,
+        status: 'completed',
+        backUri: backUrl,
+        frontUri: frontUrl,
+      });
+    } catch (error: any) {
+      // Cancelled from the calendar; clean up everything the job left
+      if (cancelledRef.current.has(uploadId)) {
+        cancelledRef.current.delete(uploadId);
+        await discardUpload(uploadId);
+        return;
       }
 
-      const {
-        data: { publicUrl },
-      } = supabase.storage.from("habit-images").getPublicUrl(data.path);
+      console.error("Error in background upload:", error);
+      // Discarded while this attempt was running
+      if (!uploadsRef.current[uploadId]) return;
 
-      // Cache the image immediately
-      try {
-        const cacheFilename =
-          publicUrl.split("/").pop()?.split("?")[0] || "temp_img";
-        const sanitizedFilename = cacheFilename.replace(/[^a-zA-Z0-9.]/g, "_");
-        const cachePath = `${FileSystem.cacheDirectory}${sanitizedFilename}`;
-
-        await FileSystem.copyAsync({
-          from: manipulatedImage.uri,
-          to: cachePath,
+      const attempts = job.attempts + 1;
+      if (isRetryableError(error) && attempts < MAX_AUTO_RETRIES) {
+        const delay = getRetryDelay(attempts);
+        updateUpload(uploadId, {
+          status: 'waiting',
+          attempts,
+          nextAttemptAt: Date.now() + delay,
+          error: error.message || 'Upload failed'
+        });
+        scheduleRetry(uploadId, delay);
+      } else {
+        if (await compensate(uploadId)) return;
+        updateUpload(uploadId, {
+          status: 'error',
+          attempts,
+          error: error.message || 'Upload failed'
         });
-      } catch (cacheError) {
-        console.error("Error caching uploaded image:", cacheError);
+        Alert.alert("Upload Failed", "Your habit completion could not be uploaded. You can retry it from Settings > Pending Uploads.");
       }
-
-      return publicUrl;
-    } catch (error) {
-      console.error("Error uploading image:", error);
-      return null;
     }
   };
 
-  const startUpload = async (habitId: string, backUri: string, frontUri: string, userId: string, selectedDate?: string) => {
-    // Set initial state
-    setUploads(prev => ({
-      ...prev,
-      [habitId]: {
-        progress: 0,
-        status: 'uploading',
-        backUri,
-        frontUri,
-      }
-    }));
+  // The job is giving up, so remove the images it stored rather than leave
+  // them orphaned. Returns true if an earlier attempt had in fact recorded
+  // the completion, in which case the job is finished instead.
+  const compensate = async (uploadId: string) => {
+    const job = uploadsRef.current[uploadId];
+    if (!job || (!job.backUrl && !job.frontUrl)) return false;
 
     try {
-      const timestamp = Date.now();
-      const backFileName = `${userId}/${habitId}/back_${timestamp}.jpg`;
-      const frontFileName = `${userId}/${habitId}/front_${timestamp}.jpg`;
-
-      // Update progress
-      setUploads(prev => ({
-        ...prev,
-        [habitId]: { ...prev[habitId], progress: 10 }
-      }));
-
-      const backUrl = await uploadImage(backUri, backFileName);
-      
-      setUploads(prev => ({
-        ...prev,
-        [habitId]: { ...prev[habitId], progress: 50 }
-      }));
-
-      const frontUrl = await uploadImage(frontUri, frontFileName);
-
-      setUploads(prev => ({
-        ...prev,
-        [habitId]: { ...prev[habitId], progress: 80 }
-      }));
-
-      if (backUrl && frontUrl) {
-        const completionDate = selectedDate
-          ? new Date(selectedDate)
-          : new Date();
-        
-        const { error } = await supabase.from("habit_completions").insert({
-          user_id: userId,
-          habit_id: habitId,
-          image_url: backUrl,
-          front_image_url: frontUrl,
-          completed_at: completionDate.toISOString(),
-        });
+      const { data: recorded, error } = await supabase
+        .from("habit_completions")
+        .select("id")
+        .eq("user_id", job.userId)
+        .eq("idempotency_key", job.idempotencyKey)
+        .maybeSingle();
 
-        if (error) throw error;
+      if (error) throw error;
 
-        setUploads(prev => ({
-          ...prev,
-          [habitId]: { ...prev[habitId], progress: 100, status: 'completed' }
-        }));
-      } else {
-        throw new Error("Failed to upload images");
+      if (recorded) {
+        await deleteQueuedFiles(job);
+        updateUpload(uploadId, {
+          progress: 100,
+          status: 'completed',
+          backUri: job.backUrl!,
+          frontUri: job.frontUrl!,
+        });
+        return true;
       }
-    } catch (error: any) {
-      console.error("Error in background upload:", error);
-      setUploads(prev => ({
-        ...prev,
-        [habitId]: { 
-          ...prev[habitId], 
-          status: 'error', 
-          error: error.message || 'Upload failed' 
-        }
-      }));
-      Alert.alert("Upload Failed", "Your habit completion could not be uploaded. Please try again.");
+
+      // The finished TUS uploads point at removed objects, so start afresh
+      await removeStoredImages(job);
+      updateUpload(uploadId, {
+        backUrl: undefined,
+        frontUrl: undefined,
+        backUploadUrl: undefined,
+        frontUploadUrl: undefined,
+      });
+    } catch (error) {
+      // Still offline; the images are kept and reused on the next retry
+      console.error("Error cleaning up failed upload:", error);
     }
+    return false;
   };
 
-  const clearUpload = (habitId: string) => {
-    setUploads(prev => {
-      const newState = { ...prev };
-      delete newState[habitId];
-      return newState;
-    });
+  const retryUpload = (uploadId: string) => {
+    const job = uploadsRef.current[uploadId];
+    if (!job || job.status === 'uploading' || job.status === 'completed') return;
+
+    clearTimeout(retryTimersRef.current[uploadId]);
+    delete retryTimersRef.current[uploadId];
+    updateUpload(uploadId, { attempts: 0 });
+    runUpload(uploadId);
+  };
+
+  // Stops an upload in flight; the attempt then cleans up after itself.
+  // Once both images are stored the completion is being recorded and it's
+  // too late to cancel.
+  const cancelUpload = async (uploadId: string) => {
+    const job = uploadsRef.current[uploadId];
+    if (!job) return;
+    if (job.status !== 'uploading') {
+      await discardUpload(uploadId);
+      return;
+    }
+    if (job.backUrl && job.frontUrl) return;
+
+    cancelledRef.current.add(uploadId);
+    await Promise.all(
+      (tasksRef.current[uploadId] || []).map((task) =>
+        task.abort().catch((error) => console.warn("Failed to terminate upload:", error))
+      )
+    );
+  };
+
+  // Drops the job, its queued photos and any image it already stored
+  const discardUpload = async (uploadId: string) => {
+    const job = uploadsRef.current[uploadId];
+    if (!job) return;
+
+    clearTimeout(retryTimersRef.current[uploadId]);
+    delete retryTimersRef.current[uploadId];
+    clearUpload(uploadId);
+    await deleteQueuedFiles(job);
+
+    removeStoredImages(job).catch((error) =>
+      console.warn("Failed to remove discarded images:", error)
+    );
+
+    // A cancelled attempt terminated its own uploads; a waiting or failed
+    // job may still have partial ones on the server
+    if (job.status === 'uploading') return;
+    const unfinished = [
+      job.backUrl ? undefined : job.backUploadUrl,
+      job.frontUrl ? undefined : job.frontUploadUrl,
+    ].filter((url): url is string => !!url);
+    if (unfinished.length === 0) return;
+
+    const headers = await getUploadHeaders();
+    unfinished.forEach((uploadUrl) =>
+      terminateResumableUpload(uploadUrl, headers).catch((error) =>
+        console.warn("Failed to terminate upload:", error)
+      )
+    );
+  };
+
+  const clearUpload = (uploadId: string) => {
+    const next = { ...uploadsRef.current };
+    delete next[uploadId];
+    commitUploads(next);
   };
 
   return (
-    <UploadContext.Provider value={{ uploads, startUpload, clearUpload }}>
+    <UploadContext.Provider value={{ uploads, startUpload, retryUpload, cancelUpload, discardUpload, clearUpload }}>
       {children}
     </UploadContext.Provider>
   );
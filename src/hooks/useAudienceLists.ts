@@ -0,0 +1,120 @@
+import { useCallback, useState } from "react";
+import { Alert } from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { supabase } from "../services/supabase";
+import { useAuth } from "../contexts/AuthContext";
+import { AudienceList } from "../types";
+
+// The signed-in user's close friends lists with their member ids
+export const useAudienceLists = () => {
+  const { user } = useAuth();
+  const [lists, setLists] = useState<AudienceList[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLists = useCallback(async () => {
+    if (!user) return;
+    try {
+      const { data, error } = await supabase
+        .from("audience_lists")
+        .select("*, members:audience_list_members(member_id)")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setLists(data || []);
+    } catch (error) {
+      console.error("Error fetching audience lists:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  // Refetch on focus so edits made on the lists screen show up on return
+  useFocusEffect(
+    useCallback(() => {
+      fetchLists();
+    }, [fetchLists])
+  );
+
+  const createList = async (name: string) => {
+    if (!user || !name.trim()) return null;
+    try {
+      const { data, error } = await supabase
+        .from("audience_lists")
+        .insert({ user_id: user.id, name: name.trim() })
+        .select("*")
+        .single();
+
+      if (error) throw error;
+      const list = { ...data, members: [] };
+      setLists((prev) => [...prev, list]);
+      return list as AudienceList;
+    } catch (error) {
+      console.error("Error creating audience list:", error);
+      Alert.alert("Error", "Failed to create list");
+      return null;
+    }
+  };
+
+  const deleteList = async (listId: string) => {
+    try {
+      const { error } = await supabase
+        .from("audience_lists")
+        .delete()
+        .eq("id", listId);
+
+      if (error) throw error;
+      setLists((prev) => prev.filter((list) => list.id !== listId));
+    } catch (error) {
+      console.error("Error deleting audience list:", error);
+      Alert.alert("Error", "Failed to delete list");
+    }
+  };
+
+  const setMember = async (
+    listId: string,
+    memberId: string,
+    included: boolean
+  ) => {
+    const previous = lists;
+    setLists((prev) =>
+      prev.map((list) =>
+        list.id === listId
+          ? {
+              ...list,
+              members: included
+                ? [...(list.members || []), { member_id: memberId }]
+                : (list.members || []).filter((m) => m.member_id !== memberId),
+            }
+          : list
+      )
+    );
+
+    try {
+      const { error } = included
+        ? await supabase
+            .from("audience_list_members")
+            .insert({ list_id: listId, member_id: memberId })
+        : await supabase
+            .from("audience_list_members")
+            .delete()
+            .eq("list_id", listId)
+            .eq("member_id", memberId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating list member:", error);
+      setLists(previous);
+      Alert.alert("Error", "Failed to update list");
+    }
+  };
+
+  return {
+    lists,
+    loading,
+    refresh: fetchLists,
+    createList,
+    deleteList,
+    setMember,
+  };
+};
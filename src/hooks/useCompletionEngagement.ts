@@ -0,0 +1,373 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../services/supabase";
+import { useAuth } from "../contexts/AuthContext";
+import { CompletionLike, CompletionReaction, Encouragement } from "../types";
+import { toDateKey } from "../utils/dates";
+
+export const REACTION_EMOJIS = ["🔥", "💪", "👏", "🎉", "❤️", "😮"];
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+  friendNames: string[]; // Friends who used this emoji, for "anna and ben"
+}
+
+export interface CompletionEngagement {
+  likes: CompletionLike[];
+  reactions: ReactionSummary[];
+  commentCount: number;
+  likedByMe: boolean;
+  encouragementCount: number;
+  encouragedToday: boolean;
+}
+
+const EMPTY_ENGAGEMENT: CompletionEngagement = {
+  likes: [],
+  reactions: [],
+  commentCount: 0,
+  likedByMe: false,
+  encouragementCount: 0,
+  encouragedToday: false,
+};
+
+// Group raw reaction rows by emoji, palette emoji first
+const summarizeReactions = (
+  reactions: CompletionReaction[],
+  userId: string | undefined,
+  friendIds: Set<string>
+): ReactionSummary[] => {
+  const byEmoji: Record<string, ReactionSummary> = {};
+  reactions.forEach((reaction) => {
+    const summary = (byEmoji[reaction.emoji] ||= {
+      emoji: reaction.emoji,
+      count: 0,
+      reactedByMe: false,
+      friendNames: [],
+    });
+    summary.count++;
+    if (reaction.user_id === userId) {
+      summary.reactedByMe = true;
+    } else if (friendIds.has(reaction.user_id) && reaction.user?.username) {
+      summary.friendNames.push(reaction.user.username);
+    }
+  });
+
+  const order = (emoji: string) => {
+    const index = REACTION_EMOJIS.indexOf(emoji);
+    return index === -1 ? REACTION_EMOJIS.length : index;
+  };
+  return Object.values(byEmoji).sort(
+    (a, b) => order(a.emoji) - order(b.emoji) || b.count - a.count
+  );
+};
+
+interface EngagementOptions {
+  realtime?: boolean; // Live reaction updates, used where owners view their posts
+}
+
+// Likes, reactions, comment and encouragement counts for a set of
+// completions, fetched in one batch
+export const useCompletionEngagement = (
+  completionIds: string[],
+  { realtime = false }: EngagementOptions = {}
+) => {
+  const { user } = useAuth();
+  const [engagement, setEngagement] = useState<
+    Record<string, CompletionEngagement>
+  >({});
+  const [friendIds, setFriendIds] = useState<Set<string>>(new Set());
+  const idsKey = completionIds.join(",");
+  // Encouragements are dated by the server, whose day is UTC
+  const todayKey = toDateKey(new Date(), "UTC");
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchFriendIds = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("friendships")
+          .select("user1_id, user2_id")
+          .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`);
+
+        if (error) throw error;
+        setFriendIds(
+          new Set(
+            (data || []).map((f) =>
+              f.user1_id === user.id ? f.user2_id : f.user1_id
+            )
+          )
+        );
+      } catch (error) {
+        console.error("Error fetching friends for reactions:", error);
+      }
+    };
+
+    fetchFriendIds();
+  }, [user?.id]);
+
+  const fetchEngagement = useCallback(async () => {
+    const ids = idsKey ? idsKey.split(",") : [];
+    if (ids.length === 0) {
+      setEngagement({});
+      return;
+    }
+
+    try {
+      const [
+        likesResult,
+        reactionsResult,
+        commentsResult,
+        encouragementsResult,
+      ] = await Promise.all([
+        supabase
+          .from("completion_likes")
+          .select("*, user:users(id, username, avatar_url)")
+          .in("completion_id", ids)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("completion_reactions")
+          .select("*, user:users(id, username)")
+          .in("completion_id", ids)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("completion_comments")
+          .select("completion_id")
+          .in("completion_id", ids),
+        supabase
+          .from("encouragements")
+          .select("completion_id, user_id, encouraged_on")
+          .in("completion_id", ids),
+      ]);
+
+      if (likesResult.error) throw likesResult.error;
+      if (reactionsResult.error) throw reactionsResult.error;
+      if (commentsResult.error) throw commentsResult.error;
+      if (encouragementsResult.error) throw encouragementsResult.error;
+
+      const next: Record<string, CompletionEngagement> = {};
+      ids.forEach((id) => {
+        next[id] = { ...EMPTY_ENGAGEMENT, likes: [] };
+      });
+      (likesResult.data || []).forEach((like: CompletionLike) => {
+        next[like.completion_id].likes.push(like);
+        if (like.user_id === user?.id) {
+          next[like.completion_id].likedByMe = true;
+        }
+      });
+      const reactionsByCompletion: Record<string, CompletionReaction[]> = {};
+      (reactionsResult.data || []).forEach((reaction: CompletionReaction) => {
+        (reactionsByCompletion[reaction.completion_id] ||= []).push(reaction);
+      });
+      Object.entries(reactionsByCompletion).forEach(([id, reactions]) => {
+        next[id].reactions = summarizeReactions(reactions, user?.id, friendIds);
+      });
+      (commentsResult.data || []).forEach(({ completion_id }) => {
+        next[completion_id].commentCount++;
+      });
+      (encouragementsResult.data || []).forEach(
+        (
+          encouragement: Pick<
+            Encouragement,
+            "completion_id" | "user_id" | "encouraged_on"
+          >
+        ) => {
+          const entry = next[encouragement.completion_id];
+          entry.encouragementCount++;
+          if (
+            encouragement.user_id === user?.id &&
+            encouragement.encouraged_on === todayKey
+          ) {
+            entry.encouragedToday = true;
+          }
+        }
+      );
+
+      setEngagement(next);
+    } catch (error) {
+      console.error("Error fetching likes and comments:", error);
+    }
+  }, [idsKey, user?.id, todayKey, friendIds]);
+
+  useEffect(() => {
+    fetchEngagement();
+  }, [fetchEngagement]);
+
+  useEffect(() => {
+    if (!realtime || !idsKey) return;
+
+    const subscription = supabase
+      .channel(`reactions:${idsKey}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "completion_reactions",
+          filter: `completion_id=in.(${idsKey})`,
+        },
+        () => {
+          fetchEngagement();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [realtime, idsKey, fetchEngagement]);
+
+  const getEngagement = (completionId: string) =>
+    engagement[completionId] || EMPTY_ENGAGEMENT;
+
+  const toggleLike = async (completionId: string) => {
+    if (!user) return;
+    const current = getEngagement(completionId);
+    const liked = current.likedByMe;
+
+    // Optimistic update, rolled back below if the request fails
+    setEngagement((prev) => ({
+      ...prev,
+      [completionId]: {
+        ...current,
+        likedByMe: !liked,
+        likes: liked
+          ? current.likes.filter((like) => like.user_id !== user.id)
+          : [
+              {
+                id: `temp-${Date.now()}`,
+                completion_id: completionId,
+                user_id: user.id,
+                created_at: new Date().toISOString(),
+                user: {
+                  id: user.id,
+                  username: user.username,
+                  avatar_url: user.avatar_url,
+                },
+              },
+              ...current.likes,
+            ],
+      },
+    }));
+
+    try {
+      const { error } = liked
+        ? await supabase
+            .from("completion_likes")
+            .delete()
+            .eq("completion_id", completionId)
+            .eq("user_id", user.id)
+        : await supabase
+            .from("completion_likes")
+            .insert({ completion_id: completionId, user_id: user.id });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating like:", error);
+      setEngagement((prev) => ({ ...prev, [completionId]: current }));
+    }
+  };
+
+  // At most one encouragement per completion per day; repeats are ignored
+  const encourage = async (completionId: string) => {
+    if (!user) return;
+    const current = getEngagement(completionId);
+    if (current.encouragedToday) return;
+
+    setEngagement((prev) => ({
+      ...prev,
+      [completionId]: {
+        ...current,
+        encouragementCount: current.encouragementCount + 1,
+        encouragedToday: true,
+      },
+    }));
+
+    try {
+      const { error } = await supabase.from("encouragements").upsert(
+        {
+          completion_id: completionId,
+          user_id: user.id,
+        },
+        {
+          onConflict: "completion_id,user_id,encouraged_on",
+          ignoreDuplicates: true,
+        }
+      );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error saving encouragement:", error);
+      setEngagement((prev) => ({ ...prev, [completionId]: current }));
+    }
+  };
+
+  const toggleReaction = async (completionId: string, emoji: string) => {
+    if (!user) return;
+    const current = getEngagement(completionId);
+    const existing = current.reactions.find((r) => r.emoji === emoji);
+    const removing = !!existing?.reactedByMe;
+
+    let reactions: ReactionSummary[];
+    if (removing) {
+      reactions = current.reactions
+        .map((r) =>
+          r.emoji === emoji
+            ? { ...r, count: r.count - 1, reactedByMe: false }
+            : r
+        )
+        .filter((r) => r.count > 0);
+    } else if (existing) {
+      reactions = current.reactions.map((r) =>
+        r.emoji === emoji ? { ...r, count: r.count + 1, reactedByMe: true } : r
+      );
+    } else {
+      reactions = [
+        ...current.reactions,
+        { emoji, count: 1, reactedByMe: true, friendNames: [] },
+      ];
+    }
+    setEngagement((prev) => ({
+      ...prev,
+      [completionId]: { ...current, reactions },
+    }));
+
+    try {
+      const { error } = removing
+        ? await supabase
+            .from("completion_reactions")
+            .delete()
+            .eq("completion_id", completionId)
+            .eq("user_id", user.id)
+            .eq("emoji", emoji)
+        : await supabase
+            .from("completion_reactions")
+            .insert({ completion_id: completionId, user_id: user.id, emoji });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating reaction:", error);
+      setEngagement((prev) => ({ ...prev, [completionId]: current }));
+    }
+  };
+
+  const setCommentCount = (completionId: string, commentCount: number) => {
+    setEngagement((prev) => ({
+      ...prev,
+      [completionId]: {
+        ...(prev[completionId] || EMPTY_ENGAGEMENT),
+        commentCount,
+      },
+    }));
+  };
+
+  return {
+    getEngagement,
+    toggleLike,
+    toggleReaction,
+    encourage,
+    setCommentCount,
+    refresh: fetchEngagement,
+  };
+};
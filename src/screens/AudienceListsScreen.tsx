@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+import { supabase } from "../services/supabase";
+import { useAuth } from "../contexts/AuthContext";
+import { useAudienceLists } from "../hooks/useAudienceLists";
+import { AudienceList, User } from "../types";
+
+type Friend = Pick<User, "id" | "username" | "avatar_url">;
+
+const AudienceListsScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { user } = useAuth();
+  const { lists, loading, createList, deleteList, setMember } =
+    useAudienceLists();
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [newListName, setNewListName] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchFriends = async () => {
+      try {
+        const { data: friendships, error } = await supabase
+          .from("friendships")
+          .select("user1_id, user2_id")
+          .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`);
+
+        if (error) throw error;
+
+        const friendIds = (friendships || []).map((f) =>
+          f.user1_id === user.id ? f.user2_id : f.user1_id
+        );
+        if (friendIds.length === 0) {
+          setFriends([]);
+          return;
+        }
+
+        const { data: users, error: usersError } = await supabase
+          .from("users")
+          .select("id, username, avatar_url")
+          .in("id", friendIds)
+          .order("username", { ascending: true });
+
+        if (usersError) throw usersError;
+        setFriends(users || []);
+      } catch (error) {
+        console.error("Error fetching friends:", error);
+      }
+    };
+
+    fetchFriends();
+  }, [user?.id]);
+
+  const handleCreate = async () => {
+    const list = await createList(newListName);
+    if (list) {
+      setNewListName("");
+      setExpandedId(list.id);
+    }
+  };
+
+  const handleDelete = (list: AudienceList) => {
+    Alert.alert(
+      "Delete List",
+      `Delete "${list.name}"? Habits shared with this list will become private.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => deleteList(list.id),
+        },
+      ]
+    );
+  };
+
+  const renderList = (list: AudienceList) => {
+    const memberIds = new Set((list.members || []).map((m) => m.member_id));
+    const expanded = expandedId === list.id;
+
+    return (
+      <View key={list.id} style={styles.listCard}>
+        <TouchableOpacity
+          style={styles.listHeader}
+          onPress={() => setExpandedId(expanded ? null : list.id)}
+        >
+          <Ionicons name="star" size={20} color="#34C759" />
+          <View style={styles.listInfo}>
+            <Text style={styles.listName}>{list.name}</Text>
+            <Text style={styles.listCount}>
+              {memberIds.size} {memberIds.size === 1 ? "friend" : "friends"}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => handleDelete(list)}
+          >
+            <Ionicons name="trash-outline" size={20} color="#999" />
+          </TouchableOpacity>
+          <Ionicons
+            name={expanded ? "chevron-up" : "chevron-down"}
+            size={18}
+            color="#ccc"
+          />
+        </TouchableOpacity>
+
+        {expanded &&
+          (friends.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Add friends first to share habits with them.
+            </Text>
+          ) : (
+            friends.map((friend) => {
+              const included = memberIds.has(friend.id);
+              return (
+                <TouchableOpacity
+                  key={friend.id}
+                  style={styles.friendRow}
+                  onPress={() => setMember(list.id, friend.id, !included)}
+                >
+                  <View style={styles.avatar}>
+                    {friend.avatar_url ? (
+                      <Image
+                        source={{ uri: friend.avatar_url }}
+                        style={styles.avatar}
+                      />
+                    ) : (
+                      <Ionicons name="person" size={16} color="#666" />
+                    )}
+                  </View>
+                  <Text style={styles.friendName}>{friend.username}</Text>
+                  <Ionicons
+                    name={included ? "checkmark-circle" : "ellipse-outline"}
+                    size={24}
+                    color={included ? "#34C759" : "#ccc"}
+                  />
+                </TouchableOpacity>
+              );
+            })
+          ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Close Friends Lists</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.scrollView}>
+        <Text style={styles.description}>
+          Share sensitive habits with just a few people. Pick a list as a
+          habit's visibility and only the friends on it will see it.
+        </Text>
+
+        <View style={styles.createRow}>
+          <TextInput
+            style={styles.input}
+            placeholder="New list name"
+            value={newListName}
+            onChangeText={setNewListName}
+            maxLength={50}
+            onSubmitEditing={handleCreate}
+          />
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={handleCreate}
+            disabled={!newListName.trim()}
+          >
+            <Ionicons
+              name="add-circle"
+              size={28}
+              color={newListName.trim() ? "#1a1a1a" : "#ccc"}
+            />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} color="#666" />
+        ) : (
+          lists.map(renderList)
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fff",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 24,
+    backgroundColor: "#fff",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+  },
+  placeholder: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: "#1a1a1a",
+    letterSpacing: -0.5,
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  description: {
+    fontSize: 14,
+    color: "#999",
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  createRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#eee",
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  loading: {
+    padding: 40,
+  },
+  listCard: {
+    borderWidth: 1,
+    borderColor: "#eee",
+    borderRadius: 16,
+    marginBottom: 12,
+    overflow: "hidden",
+  },
+  listHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+  },
+  listInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  listName: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#1a1a1a",
+  },
+  listCount: {
+    fontSize: 13,
+    color: "#999",
+    marginTop: 2,
+  },
+  friendRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#f5f5f5",
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "#f0f0f0",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  friendName: {
+    flex: 1,
+    fontSize: 16,
+    color: "#333",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#999",
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+});
+
+export default AudienceListsScreen;
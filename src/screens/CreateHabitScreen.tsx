@@ -17,7 +17,12 @@ import { StackNavigationProp } from "@react-navigation/stack";
 import { useAuth } from "../contexts/AuthContext";
 import { useHabits } from "../contexts/HabitContext";
 import { supabase } from "../services/supabase";
-import { RootStackParamList } from "../types";
+import { HabitVisibility, RootStackParamList } from "../types";
+import ScheduleSelector from "../components/ScheduleSelector";
+import ReminderSelector from "../components/ReminderSelector";
+import AudienceListPicker from "../components/AudienceListPicker";
+import { useAudienceLists } from "../hooks/useAudienceLists";
+import { VISIBILITY_OPTIONS, getVisibilityOption } from "../utils/visibility";
 
 type CreateHabitScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -62,7 +67,15 @@ const CreateHabitScreen: React.FC = () => {
   const [frequency, setFrequency] = useState<"daily" | "weekly" | "monthly">(
     "daily"
   );
-  const [isPublic, setIsPublic] = useState(true);
+  const [targetCount, setTargetCount] = useState(1);
+  const [weekdayMask, setWeekdayMask] = useState<number | null>(null);
+  const [reminderTimes, setReminderTimes] = useState<string[]>([]);
+  const [reminderWeekdayMask, setReminderWeekdayMask] = useState<number | null>(
+    null
+  );
+  const [visibility, setVisibility] = useState<HabitVisibility>("public");
+  const [audienceListId, setAudienceListId] = useState<string | null>(null);
+  const { lists: audienceLists } = useAudienceLists();
   const [loading, setLoading] = useState(false);
 
   const { user } = useAuth();
@@ -80,6 +93,11 @@ const CreateHabitScreen: React.FC = () => {
       return;
     }
 
+    if (visibility === "list" && !audienceListId) {
+      Alert.alert("Error", "Please choose who should see this habit");
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -89,9 +107,17 @@ const CreateHabitScreen: React.FC = () => {
         description: description.trim() || null,
         color: selectedColor,
         frequency: frequency,
-        is_public: isPublic,
+        target_count: frequency === "daily" ? 1 : targetCount,
+        weekday_mask: frequency === "daily" ? weekdayMask : null,
+        visibility,
+        is_public: visibility === "public",
+        audience_list_id: visibility === "list" ? audienceListId : null,
         start_time: null,
         duration: null,
+        reminder_times: reminderTimes,
+        reminder_weekday_mask: reminderTimes.length
+          ? reminderWeekdayMask
+          : null,
       };
 
       const { data, error } = await supabase
@@ -252,7 +278,10 @@ const CreateHabitScreen: React.FC = () => {
                       styles.frequencyOption,
                       frequency === freq.value && styles.selectedFrequency,
                     ]}
-                    onPress={() => setFrequency(freq.value)}
+                    onPress={() => {
+                      setFrequency(freq.value);
+                      setTargetCount(1);
+                    }}
                   >
                     <Text
                       style={[
@@ -269,20 +298,67 @@ const CreateHabitScreen: React.FC = () => {
             </View>
 
             <View style={styles.inputGroup}>
-              <View style={styles.toggleRow}>
-                <View style={styles.toggleInfo}>
-                  <Text style={styles.label}>Public Habit</Text>
-                  <Text style={styles.toggleDescription}>
-                    Allow others to see your progress in the community feed
-                  </Text>
-                </View>
-                <TouchableOpacity
-                  style={[styles.toggle, isPublic && styles.toggleActive]}
-                  onPress={() => setIsPublic(!isPublic)}
-                >
-                  <View style={styles.toggleIndicator} />
-                </TouchableOpacity>
+              <Text style={styles.label}>
+                {frequency === "daily" ? "Days" : "Target"}
+              </Text>
+              <ScheduleSelector
+                frequency={frequency}
+                targetCount={targetCount}
+                weekdayMask={weekdayMask}
+                onTargetCountChange={setTargetCount}
+                onWeekdayMaskChange={setWeekdayMask}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Reminders</Text>
+              <ReminderSelector
+                times={reminderTimes}
+                weekdayMask={reminderWeekdayMask}
+                onTimesChange={setReminderTimes}
+                onWeekdayMaskChange={setReminderWeekdayMask}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Visibility</Text>
+              <View style={styles.frequencyGrid}>
+                {VISIBILITY_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.frequencyOption,
+                      visibility === option.value && styles.selectedFrequency,
+                    ]}
+                    onPress={() => setVisibility(option.value)}
+                  >
+                    <Ionicons
+                      name={option.icon}
+                      size={18}
+                      color={visibility === option.value ? "#fff" : "#666"}
+                    />
+                    <Text
+                      style={[
+                        styles.frequencyText,
+                        visibility === option.value &&
+                          styles.selectedFrequencyText,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
               </View>
+              <Text style={styles.visibilityDescription}>
+                {getVisibilityOption(visibility).description}
+              </Text>
+              {visibility === "list" && (
+                <AudienceListPicker
+                  lists={audienceLists}
+                  selectedListId={audienceListId}
+                  onSelect={setAudienceListId}
+                />
+              )}
             </View>
           </View>
 
@@ -427,46 +503,12 @@ const styles = StyleSheet.create({
     color: "#fff",
     fontWeight: "600",
   },
-  toggleRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingVertical: 8,
-  },
-  toggleInfo: {
-    flex: 1,
-    marginRight: 16,
-  },
-  toggleDescription: {
+  visibilityDescription: {
     fontSize: 13,
     color: "#999",
-    marginTop: 4,
+    marginTop: 8,
     lineHeight: 18,
   },
-  toggle: {
-    width: 52,
-    height: 32,
-    borderRadius: 20,
-    backgroundColor: "#eee",
-    justifyContent: "center",
-    paddingHorizontal: 2,
-    alignItems: "flex-start",
-  },
-  toggleActive: {
-    backgroundColor: "#1a1a1a",
-    alignItems: "flex-end",
-  },
-  toggleIndicator: {
-    width: 28,
-    height: 28,
-    borderRadius: 14,
-    backgroundColor: "#fff",
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 2,
-  },
   createButton: {
     borderRadius: 16,
     marginTop: 32,
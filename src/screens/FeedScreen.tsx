@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import {
   View,
   Text,
@@ -9,22 +9,60 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Animated,
+  Alert,
 } from "react-native";
 import { LinearGradient } from "expo-linear-gradient";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Ionicons } from "@expo/vector-icons";
 import { useFocusEffect, useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { supabase } from "../services/supabase";
-import { FeedItem, RootStackParamList } from "../types";
+import {
+  FeedItem,
+  FeedMute,
+  ReportReason,
+  RootStackParamList,
+  StoryGroup,
+} from "../types";
 import { useAuth } from "../contexts/AuthContext";
+import { useHabits } from "../contexts/HabitContext";
 import { useCollapsibleHeader } from "../hooks/useCollapsibleHeader";
 import EncourageButton from "../components/EncourageButton";
 import { CachedImage } from "../components/CachedImage";
+import EngagementBar from "../components/EngagementBar";
+import CommentsSheet from "../components/CommentsSheet";
+import ReactionPicker from "../components/ReactionPicker";
+import FeedItemMenu from "../components/FeedItemMenu";
+import StoryAvatarRow from "../components/StoryAvatarRow";
+import StoryViewer from "../components/StoryViewer";
+import { useCompletionEngagement } from "../hooks/useCompletionEngagement";
+import { isScheduledDay } from "../utils/frequency";
+import { blockUser } from "../services/blocks";
+import { resolveTimeZone, toDateKey } from "../utils/dates";
 
 type FeedScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
 const PAGE_SIZE = 10;
-const HEADER_HEIGHT = 120;
+const GATED_BLUR_RADIUS = 40;
+const PILL_MIN_TOP = 56; // Keeps the pill below the status bar once the header hides
+const HEADER_HEIGHT = 168;
+
+type FeedMode = "friends" | "everyone";
+
+const matchesMute = (
+  item: FeedItem,
+  targetType: FeedMute["target_type"],
+  targetId: string
+) => {
+  if (targetType === "user") return item.user.id === targetId;
+  if (targetType === "habit") return item.habit.id === targetId;
+  return item.id === targetId;
+};
+
+const FEED_MODES: { value: FeedMode; label: string }[] = [
+  { value: "friends", label: "Friends" },
+  { value: "everyone", label: "Everyone" },
+];
 
 const hexToRgba = (hex: string, opacity: number) => {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
@@ -63,6 +101,23 @@ const formatTimeAgo = (dateString: string) => {
   return date.toLocaleDateString();
 };
 
+// Rows come from the feed select with habits and users joined in
+const toFeedItem = (completion: any): FeedItem => ({
+  id: completion.id,
+  user: {
+    id: completion.users.id,
+    username: completion.users.username,
+    avatar_url: completion.users.avatar_url,
+  },
+  habit: {
+    id: completion.habits.id,
+    title: completion.habits.title,
+    color: completion.habits.color,
+  },
+  completion,
+  created_at: completion.completed_at,
+});
+
 const FeedScreen: React.FC = () => {
   const [feedItems, setFeedItems] = useState<FeedItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -70,67 +125,329 @@ const FeedScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [hasMore, setHasMore] = useState(true);
   const [page, setPage] = useState(0);
+  const [pendingItems, setPendingItems] = useState<FeedItem[]>([]);
+  const [feedMode, setFeedMode] = useState<FeedMode | null>(null);
+  const feedModeRef = useRef<FeedMode | null>(null);
+  const friendIdsRef = useRef<string[]>([]);
+  const audienceListIdsRef = useRef<string[]>([]);
+  const [menuItem, setMenuItem] = useState<FeedItem | null>(null);
+  const [commentsItem, setCommentsItem] = useState<FeedItem | null>(null);
+  const [reactionItem, setReactionItem] = useState<FeedItem | null>(null);
+  const [stories, setStories] = useState<StoryGroup[]>([]);
+  const [viewedStoryIds, setViewedStoryIds] = useState<Set<string>>(new Set());
+  const viewedStoryIdsRef = useRef(viewedStoryIds);
+  const [storyGroupIndex, setStoryGroupIndex] = useState<number | null>(null);
   const { user } = useAuth();
+  const { habits, postedToday } = useHabits();
+  const {
+    getEngagement,
+    toggleLike,
+    toggleReaction,
+    encourage,
+    setCommentCount,
+  } = useCompletionEngagement(feedItems.map((item) => item.id));
   const navigation = useNavigation<FeedScreenNavigationProp>();
   const { scrollY, translateY, handleScroll } =
     useCollapsibleHeader(HEADER_HEIGHT);
 
+  // Ride along under the header, then stick near the top when it collapses
+  const pillTranslateY = translateY.interpolate({
+    inputRange: [-HEADER_HEIGHT, 0],
+    outputRange: [PILL_MIN_TOP, HEADER_HEIGHT + 8],
+    extrapolateLeft: "clamp",
+  });
+
+  // Restore the last chosen feed mode
+  useEffect(() => {
+    if (!user) return;
+
+    const loadFeedMode = async () => {
+      let mode: FeedMode = "everyone";
+      try {
+        const stored = await AsyncStorage.getItem(`feed_mode_${user.id}`);
+        if (stored === "friends" || stored === "everyone") {
+          mode = stored;
+        }
+      } catch (error) {
+        console.error("Error loading feed mode:", error);
+      }
+      feedModeRef.current = mode;
+      setFeedMode(mode);
+    };
+
+    loadFeedMode();
+  }, [user?.id]);
+
+  // Stories already watched, so their avatar rings can be greyed out
+  useEffect(() => {
+    if (!user) return;
+
+    const loadViewedStories = async () => {
+      try {
+        const stored = await AsyncStorage.getItem(`viewed_stories_${user.id}`);
+        if (stored) {
+          viewedStoryIdsRef.current = new Set(JSON.parse(stored));
+          setViewedStoryIds(viewedStoryIdsRef.current);
+        }
+      } catch (error) {
+        console.error("Error loading viewed stories:", error);
+      }
+    };
+
+    loadViewedStories();
+  }, [user?.id]);
+
   // Initial load
   useFocusEffect(
     useCallback(() => {
-      if (user) {
+      if (user && feedMode) {
         // Only refresh if the list is empty or we explicitly want to (e.g. user revisited tab)
         // For now, let's just refresh to keep it simple, but we can optimize later
         fetchFeed(0, true);
       }
-    }, [user])
+    }, [user, feedMode])
   );
 
+  const handleModeChange = async (mode: FeedMode) => {
+    if (!user || mode === feedMode) return;
+
+    feedModeRef.current = mode;
+    setFeedMode(mode);
+    setFeedItems([]);
+    setPendingItems([]);
+    setLoading(true);
+    setLoadingMore(false);
+    try {
+      await AsyncStorage.setItem(`feed_mode_${user.id}`, mode);
+    } catch (error) {
+      console.error("Error saving feed mode:", error);
+    }
+  };
+
+  const fetchFriendIds = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("friendships")
+      .select("user1_id, user2_id")
+      .or(`user1_id.eq.${userId},user2_id.eq.${userId}`);
+
+    if (error) throw error;
+    return (data || []).map((f) =>
+      f.user1_id === userId ? f.user2_id : f.user1_id
+    );
+  };
+
+  // Close friends lists other users have put us on
+  const fetchAudienceListIds = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("audience_list_members")
+      .select("list_id")
+      .eq("member_id", userId);
+
+    if (error) throw error;
+    return (data || []).map((m) => m.list_id);
+  };
+
+  // Other users' photo completions we're allowed to see, for the given mode.
+  // The view already leaves out hidden posts, muted users and muted habits.
+  const buildFeedQuery = (userId: string, mode: FeedMode) => {
+    const friendIds = friendIdsRef.current;
+    const listIds = audienceListIdsRef.current;
+
+    let query = supabase
+      .from("feed_completions")
+      .select(
+        `
+          *,
+          habits!inner(id, title, color, visibility),
+          users!inner(id, username, avatar_url)
+        `
+      )
+      .not("image_url", "is", null)
+      .neq("user_id", userId);
+
+    // Habits we may see: public, friends-only from friends, and those
+    // shared with a list we're on
+    const visibleHabits = ["visibility.eq.public"];
+    if (friendIds.length > 0) {
+      visibleHabits.push(
+        `and(visibility.eq.friends,user_id.in.(${friendIds.join(",")}))`
+      );
+    }
+    if (listIds.length > 0) {
+      visibleHabits.push(
+        `and(visibility.eq.list,audience_list_id.in.(${listIds.join(",")}))`
+      );
+    }
+    query = query.or(visibleHabits.join(","), { referencedTable: "habits" });
+
+    if (mode === "friends") {
+      query = query.in("user_id", friendIds);
+    }
+    return query;
+  };
+
+  // Buffer new posts as they arrive instead of shifting the list under the
+  // reader; they're shown behind the "new posts" pill
+  useEffect(() => {
+    if (!user || !feedMode) return;
+
+    const subscription = supabase
+      .channel("feed")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "habit_completions",
+        },
+        async (payload) => {
+          if (payload.new.user_id === user.id) return;
+          if (feedMode === "friends" && friendIdsRef.current.length === 0) {
+            return;
+          }
+
+          try {
+            // Re-read through the feed query so the same visibility rules apply
+            const { data, error } = await buildFeedQuery(user.id, feedMode)
+              .eq("id", payload.new.id)
+              .maybeSingle();
+
+            if (error) throw error;
+            if (!data || feedModeRef.current !== feedMode) return;
+
+            const item = toFeedItem(data);
+            setPendingItems((prev) =>
+              prev.some((p) => p.id === item.id) ? prev : [item, ...prev]
+            );
+          } catch (error) {
+            console.error("Error loading new feed post:", error);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [user?.id, feedMode]);
+
+  // Friends' posts from today, one group per friend with unwatched ones first
+  const fetchStories = async (userId: string) => {
+    if (friendIdsRef.current.length === 0) {
+      setStories([]);
+      return;
+    }
+
+    // Today in the viewer's home timezone, matched against each post's day
+    const todayKey = toDateKey(new Date(), resolveTimeZone(user?.timezone));
+
+    try {
+      const { data, error } = await buildFeedQuery(userId, "friends")
+        .eq("local_date", todayKey)
+        .order("completed_at", { ascending: true });
+
+      if (error) throw error;
+
+      const groups: Record<string, StoryGroup> = {};
+      (data || []).map(toFeedItem).forEach((item) => {
+        (groups[item.user.id] ||= { user: item.user, items: [] }).items.push(
+          item
+        );
+      });
+      const viewed = viewedStoryIdsRef.current;
+      const isUnviewed = (group: StoryGroup) =>
+        group.items.some((item) => !viewed.has(item.id)) ? 0 : 1;
+      setStories(
+        Object.values(groups).sort((a, b) => isUnviewed(a) - isUnviewed(b))
+      );
+    } catch (error) {
+      console.error("Error fetching stories:", error);
+    }
+  };
+
+  const isStoryViewed = (group: StoryGroup) =>
+    group.items.every((item) => viewedStoryIds.has(item.id));
+
+  const markStoryViewed = (completionId: string) => {
+    if (!user || viewedStoryIdsRef.current.has(completionId)) return;
+
+    // Only today's stories need remembering, so older ids are dropped
+    const storyIds = new Set(
+      stories.flatMap((group) => group.items.map((item) => item.id))
+    );
+    const next = new Set(
+      [...viewedStoryIdsRef.current, completionId].filter((id) =>
+        storyIds.has(id)
+      )
+    );
+    viewedStoryIdsRef.current = next;
+    setViewedStoryIds(next);
+    AsyncStorage.setItem(
+      `viewed_stories_${user.id}`,
+      JSON.stringify([...next])
+    ).catch((error) => console.error("Error saving viewed stories:", error));
+  };
+
+  const showPendingItems = () => {
+    setFeedItems((prev) => {
+      const seen = new Set(prev.map((item) => item.id));
+      return [...pendingItems.filter((item) => !seen.has(item.id)), ...prev];
+    });
+    setPendingItems([]);
+  };
+
   const fetchFeed = async (pageNumber: number, shouldRefresh = false) => {
+    const mode = feedModeRef.current;
     try {
-      if (!user) return;
+      if (!user || !mode) return;
 
       if (pageNumber === 0) {
         setHasMore(true);
       }
 
-      const { data, error } = await supabase
-        .from("habit_completions")
-        .select(
-          `
-          *,
-          habits!inner(id, title, color, is_public),
-          users!inner(id, username, avatar_url)
-        `
-        )
-        .not("image_url", "is", null)
-        .neq("user_id", user.id)
-        .eq("habits.is_public", true)
+      // Audiences are looked up once per refresh and reused for later pages
+      if (pageNumber === 0) {
+        [friendIdsRef.current, audienceListIdsRef.current] = await Promise.all([
+          fetchFriendIds(user.id),
+          fetchAudienceListIds(user.id),
+        ]);
+        fetchStories(user.id);
+      }
+      const friendIds = friendIdsRef.current;
+
+      if (mode === "friends" && friendIds.length === 0) {
+        if (feedModeRef.current === mode) {
+          setFeedItems([]);
+          setPendingItems([]);
+          setHasMore(false);
+          setPage(0);
+        }
+        return;
+      }
+
+      const { data, error } = await buildFeedQuery(user.id, mode)
         .order("completed_at", { ascending: false })
         .range(pageNumber * PAGE_SIZE, (pageNumber + 1) * PAGE_SIZE - 1);
 
       if (error) throw error;
 
-      const formattedFeed: FeedItem[] = (data || []).map((completion) => ({
-        id: completion.id,
-        user: {
-          id: completion.users.id,
-          username: completion.users.username,
-          avatar_url: completion.users.avatar_url,
-        },
-        habit: {
-          id: completion.habits.id,
-          title: completion.habits.title,
-          color: completion.habits.color,
-        },
-        completion,
-        created_at: completion.completed_at,
-      }));
+      // The mode was switched while this page was loading
+      if (feedModeRef.current !== mode) return;
+
+      const formattedFeed: FeedItem[] = (data || []).map(toFeedItem);
 
       if (shouldRefresh || pageNumber === 0) {
         setFeedItems(formattedFeed);
+        setPendingItems([]);
       } else {
-        setFeedItems((prev) => [...prev, ...formattedFeed]);
+        // Posts prepended from realtime shift the pages, so skip repeats
+        setFeedItems((prev) => {
+          const seen = new Set(prev.map((item) => item.id));
+          return [
+            ...prev,
+            ...formattedFeed.filter((item) => !seen.has(item.id)),
+          ];
+        });
       }
 
       setHasMore(formattedFeed.length === PAGE_SIZE);
@@ -138,9 +455,12 @@ const FeedScreen: React.FC = () => {
     } catch (error) {
       console.error("Error fetching feed:", error);
     } finally {
-      setLoading(false);
-      setRefreshing(false);
-      setLoadingMore(false);
+      // A newer request for the other mode owns the spinners now
+      if (feedModeRef.current === mode) {
+        setLoading(false);
+        setRefreshing(false);
+        setLoadingMore(false);
+      }
     }
   };
 
@@ -156,6 +476,121 @@ const FeedScreen: React.FC = () => {
     }
   };
 
+  // Post-to-see: photos stay blurred until you've posted today
+  const feedLocked = (user?.post_to_see_feed ?? true) && !postedToday;
+
+  const handlePostNow = () => {
+    const todayKey = toDateKey(new Date(), resolveTimeZone(user?.timezone));
+    const habit =
+      habits.find(
+        (h) => !h.completedThisPeriod && isScheduledDay(todayKey, h)
+      ) || habits[0];
+
+    if (!habit) {
+      navigation.navigate("CreateHabit");
+      return;
+    }
+    navigation.navigate("DualCamera", { habitId: habit.id });
+  };
+
+  const addMute = async (
+    targetType: FeedMute["target_type"],
+    targetId: string
+  ) => {
+    if (!user) return;
+
+    setFeedItems((prev) =>
+      prev.filter((item) => !matchesMute(item, targetType, targetId))
+    );
+    setPendingItems((prev) =>
+      prev.filter((item) => !matchesMute(item, targetType, targetId))
+    );
+    setStories((prev) =>
+      prev
+        .map((group) => ({
+          ...group,
+          items: group.items.filter(
+            (item) => !matchesMute(item, targetType, targetId)
+          ),
+        }))
+        .filter((group) => group.items.length > 0)
+    );
+
+    try {
+      const { error } = await supabase.from("feed_mutes").upsert(
+        { user_id: user.id, target_type: targetType, target_id: targetId },
+        {
+          onConflict: "user_id,target_type,target_id",
+          ignoreDuplicates: true,
+        }
+      );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error saving mute:", error);
+      Alert.alert("Error", "Failed to save. Please try again.");
+    }
+  };
+
+  const handleReport = async (item: FeedItem, reason: ReportReason) => {
+    if (!user) return;
+    try {
+      const { error } = await supabase.from("content_reports").insert({
+        reporter_id: user.id,
+        completion_id: item.id,
+        reported_user_id: item.user.id,
+        reason,
+      });
+
+      // Reporting the same post twice is fine
+      if (error && error.code !== "23505") throw error;
+
+      await addMute("completion", item.id);
+      Alert.alert(
+        "Thanks for Reporting",
+        "We'll review this post. It has been hidden from your feed."
+      );
+    } catch (error) {
+      console.error("Error reporting post:", error);
+      Alert.alert("Error", "Failed to send report. Please try again.");
+    }
+  };
+
+  const handleBlock = (item: FeedItem) => {
+    Alert.alert(
+      `Block ${item.user.username}?`,
+      "You won't see each other's posts or profiles, and they won't be able to message you or send friend requests.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Block",
+          style: "destructive",
+          onPress: async () => {
+            if (!user) return;
+            try {
+              await blockUser(user.id, item.user.id);
+              friendIdsRef.current = friendIdsRef.current.filter(
+                (id) => id !== item.user.id
+              );
+              setFeedItems((prev) =>
+                prev.filter((feedItem) => feedItem.user.id !== item.user.id)
+              );
+              setPendingItems((prev) =>
+                prev.filter((feedItem) => feedItem.user.id !== item.user.id)
+              );
+              setStories((prev) =>
+                prev.filter((group) => group.user.id !== item.user.id)
+              );
+            } catch (error) {
+              console.error("Error blocking user:", error);
+              Alert.alert("Error", "Failed to block user. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleUserPress = (userId: string) => {
     navigation.navigate("UserProfile", { userId });
   };
@@ -189,7 +624,10 @@ const FeedScreen: React.FC = () => {
             <Text style={styles.username}>{item.user.username}</Text>
           </View>
         </TouchableOpacity>
-        <TouchableOpacity style={styles.menuButton}>
+        <TouchableOpacity
+          style={styles.menuButton}
+          onPress={() => setMenuItem(item)}
+        >
           <Ionicons name="ellipsis-vertical" size={20} color="#666" />
         </TouchableOpacity>
       </View>
@@ -202,10 +640,12 @@ const FeedScreen: React.FC = () => {
               <CachedImage
                 source={{ uri: item.completion.image_url }}
                 style={styles.feedImage}
+                blurRadius={feedLocked ? GATED_BLUR_RADIUS : 0}
               />
               <CachedImage
                 source={{ uri: item.completion.front_image_url }}
                 style={styles.frontImageOverlay}
+                blurRadius={feedLocked ? GATED_BLUR_RADIUS : 0}
               />
             </View>
           ) : (
@@ -213,11 +653,39 @@ const FeedScreen: React.FC = () => {
             <CachedImage
               source={{ uri: item.completion.image_url }}
               style={styles.feedImage}
+              blurRadius={feedLocked ? GATED_BLUR_RADIUS : 0}
             />
           )}
+
+          {feedLocked && (
+            <View style={styles.lockedOverlay}>
+              <Ionicons name="eye-off-outline" size={36} color="#fff" />
+              <Text style={styles.lockedTitle}>Post to see</Text>
+              <Text style={styles.lockedSubtitle}>
+                Share your own photo today to unlock your friends' posts
+              </Text>
+              <TouchableOpacity
+                style={styles.lockedButton}
+                onPress={handlePostNow}
+              >
+                <Ionicons name="camera" size={18} color="#333" />
+                <Text style={styles.lockedButtonText}>Post Now</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       )}
 
+      <View style={styles.engagementContainer}>
+        <EngagementBar
+          engagement={getEngagement(item.id)}
+          onToggleLike={() => toggleLike(item.id)}
+          onOpenComments={() => setCommentsItem(item)}
+          onToggleReaction={(emoji) => toggleReaction(item.id, emoji)}
+          onAddReaction={() => setReactionItem(item)}
+        />
+      </View>
+
       {item.completion.notes && (
         <Text style={styles.notes}>{item.completion.notes}</Text>
       )}
@@ -301,7 +769,12 @@ const FeedScreen: React.FC = () => {
           </View>
           <Text style={styles.timestamp}>{formatTimeAgo(item.created_at)}</Text>
         </View>
-        <EncourageButton onPress={() => console.log("Encouraged!")} />
+        <EncourageButton
+          onPress={() => encourage(item.id)}
+          onLongPress={() => setReactionItem(item)}
+          count={getEngagement(item.id).encouragementCount}
+          encouraged={getEngagement(item.id).encouragedToday}
+        />
       </View>
     </View>
   );
@@ -327,14 +800,6 @@ const FeedScreen: React.FC = () => {
     return null;
   };
 
-  if (loading) {
-    return (
-      <View style={styles.centerContainer}>
-        <Text>Loading feed...</Text>
-      </View>
-    );
-  }
-
   return (
     <View style={styles.container}>
       <Animated.View
@@ -350,23 +815,75 @@ const FeedScreen: React.FC = () => {
           },
         ]}
       >
-        <Text style={styles.headerTitle}>HabitSnap</Text>
-        <View style={styles.headerButtons}>
+        <View style={styles.headerRow}>
+          <Text style={styles.headerTitle}>HabitSnap</Text>
+          <View style={styles.headerButtons}>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => navigation.navigate("Notifications")}
+            >
+              <Ionicons name="notifications-outline" size={24} color="#333" />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.segmentedControl}>
+          {FEED_MODES.map(({ value, label }) => (
+            <TouchableOpacity
+              key={value}
+              style={[
+                styles.segment,
+                feedMode === value && styles.segmentSelected,
+              ]}
+              onPress={() => handleModeChange(value)}
+            >
+              <Text
+                style={[
+                  styles.segmentText,
+                  feedMode === value && styles.segmentTextSelected,
+                ]}
+              >
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </Animated.View>
+
+      {pendingItems.length > 0 && (
+        <Animated.View
+          pointerEvents="box-none"
+          style={[
+            styles.newPostsContainer,
+            { transform: [{ translateY: pillTranslateY }] },
+          ]}
+        >
           <TouchableOpacity
-            style={styles.headerButton}
-            onPress={() => navigation.navigate("Notifications")}
+            style={styles.newPostsPill}
+            onPress={showPendingItems}
+            activeOpacity={0.8}
           >
-            <Ionicons name="notifications-outline" size={24} color="#333" />
+            <Ionicons name="arrow-up" size={16} color="#fff" />
+            <Text style={styles.newPostsText}>
+              {pendingItems.length} new{" "}
+              {pendingItems.length === 1 ? "post" : "posts"}
+            </Text>
           </TouchableOpacity>
-        </View>
-      </Animated.View>
+        </Animated.View>
+      )}
 
-      {feedItems.length === 0 ? (
+      {loading ? (
+        <View style={[styles.centerContainer, { paddingTop: HEADER_HEIGHT }]}>
+          <ActivityIndicator size="small" color="#666" />
+        </View>
+      ) : feedItems.length === 0 ? (
         <View style={[styles.emptyContainer, { paddingTop: HEADER_HEIGHT }]}>
           <Ionicons name="people-outline" size={64} color="#ccc" />
           <Text style={styles.emptyTitle}>No Activity Yet</Text>
           <Text style={styles.emptySubtitle}>
-            Complete some habits to see activity in the feed!
+            {feedMode === "friends"
+              ? "Add friends or switch to Everyone to see more activity!"
+              : "Complete some habits to see activity in the feed!"}
           </Text>
         </View>
       ) : (
@@ -374,6 +891,11 @@ const FeedScreen: React.FC = () => {
           data={feedItems}
           renderItem={renderFeedItem}
           keyExtractor={(item) => item.id}
+          // Prepending new posts keeps the reader where they are
+          maintainVisibleContentPosition={{
+            minIndexForVisible: 0,
+            autoscrollToTopThreshold: 10,
+          }}
           contentContainerStyle={[
             styles.listContainer,
             { paddingTop: HEADER_HEIGHT },
@@ -389,9 +911,52 @@ const FeedScreen: React.FC = () => {
           scrollEventThrottle={16}
           onEndReached={loadMore}
           onEndReachedThreshold={0.5}
+          ListHeaderComponent={
+            feedLocked ? null : (
+              <StoryAvatarRow
+                groups={stories}
+                isViewed={isStoryViewed}
+                onPress={setStoryGroupIndex}
+              />
+            )
+          }
           ListFooterComponent={renderFooter}
         />
       )}
+
+      <CommentsSheet
+        visible={!!commentsItem}
+        completionId={commentsItem?.id ?? null}
+        completionOwnerId={commentsItem?.user.id}
+        onClose={() => setCommentsItem(null)}
+        onCountChange={setCommentCount}
+      />
+
+      <FeedItemMenu
+        item={menuItem}
+        onClose={() => setMenuItem(null)}
+        onHide={(item) => addMute("completion", item.id)}
+        onMuteUser={(item) => addMute("user", item.user.id)}
+        onMuteHabit={(item) => addMute("habit", item.habit.id)}
+        onReport={handleReport}
+        onBlock={handleBlock}
+      />
+
+      <StoryViewer
+        groups={stories}
+        initialGroupIndex={storyGroupIndex}
+        onClose={() => setStoryGroupIndex(null)}
+        onViewed={markStoryViewed}
+      />
+
+      <ReactionPicker
+        visible={!!reactionItem}
+        reactions={reactionItem ? getEngagement(reactionItem.id).reactions : []}
+        onSelect={(emoji) =>
+          reactionItem && toggleReaction(reactionItem.id, emoji)
+        }
+        onClose={() => setReactionItem(null)}
+      />
     </View>
   );
 };
@@ -408,13 +973,72 @@ const styles = StyleSheet.create({
     backgroundColor: "#fff",
   },
   header: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 12,
+    backgroundColor: "#fff",
+  },
+  headerRow: {
     flexDirection: "row",
     justifyContent: "space-between",
     alignItems: "center",
-    paddingHorizontal: 20,
-    paddingTop: 60,
-    paddingBottom: 20,
+  },
+  newPostsContainer: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    alignItems: "center",
+    zIndex: 11,
+  },
+  newPostsPill: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#333",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  newPostsText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
+  segmentedControl: {
+    flexDirection: "row",
+    backgroundColor: "#f0f0f0",
+    borderRadius: 10,
+    padding: 2,
+    marginTop: 12,
+  },
+  segment: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  segmentSelected: {
     backgroundColor: "#fff",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#666",
+  },
+  segmentTextSelected: {
+    color: "#333",
+    fontWeight: "600",
   },
   headerButtons: {
     flexDirection: "row",
@@ -508,6 +1132,45 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     padding: 4,
   },
+  lockedOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 40,
+    backgroundColor: "rgba(0, 0, 0, 0.25)",
+  },
+  lockedTitle: {
+    color: "#fff",
+    fontSize: 20,
+    fontWeight: "700",
+    marginTop: 12,
+  },
+  lockedSubtitle: {
+    color: "rgba(255, 255, 255, 0.9)",
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  lockedButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#fff",
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 25,
+    marginTop: 16,
+  },
+  lockedButtonText: {
+    color: "#333",
+    fontSize: 15,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  engagementContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
   notes: {
     padding: 16,
     fontSize: 14,
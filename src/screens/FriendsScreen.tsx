@@ -19,6 +19,7 @@ import { supabase } from "../services/supabase";
 import { useAuth } from "../contexts/AuthContext";
 import { Friendship, User } from "../types";
 import { useCollapsibleHeader } from "../hooks/useCollapsibleHeader";
+import { fetchBlockedUserIds } from "../services/blocks";
 
 type UserSearchResult = Pick<User, "id" | "username" | "avatar_url">;
 import { RootStackParamList } from "../types";
@@ -149,10 +150,13 @@ const FriendsScreen: React.FC = () => {
 
         if (error) throw error;
 
-        // Filter out users who are already friends
+        // Filter out users who are already friends or blocked either way
         const friendIds = friends.map((f) => f.friend.id);
+        const blockedIds = await fetchBlockedUserIds();
         const filteredResults =
-          data?.filter((u) => !friendIds.includes(u.id)) || [];
+          data?.filter(
+            (u) => !friendIds.includes(u.id) && !blockedIds.includes(u.id)
+          ) || [];
 
         setSearchResults(filteredResults);
       } catch (error) {
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   View,
   Text,
@@ -16,12 +16,26 @@ import { useRoute, useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { RouteProp } from "@react-navigation/native";
 import { supabase, BUCKETS } from "../services/supabase";
-import { Habit, HabitStats, HabitCompletion } from "../types";
+import { Habit, HabitCompletion, HabitVisibility } from "../types";
 import { RootStackParamList } from "../types";
 import { useFocusEffect } from "@react-navigation/native";
 import { useHabits } from "../contexts/HabitContext";
+import { useAuth } from "../contexts/AuthContext";
 import HabitCalendar from "../components/HabitCalendar";
 import ImageModal from "../components/ImageModal";
+import ScheduleSelector from "../components/ScheduleSelector";
+import ReminderSelector from "../components/ReminderSelector";
+import AudienceListPicker from "../components/AudienceListPicker";
+import { useAudienceLists } from "../hooks/useAudienceLists";
+import { describeReminders, describeSchedule } from "../utils/frequency";
+import { computeHabitStats, formatPercent } from "../utils/habitStats";
+import { VISIBILITY_OPTIONS, getVisibilityOption } from "../utils/visibility";
+import {
+  dateKeyToLocalDate,
+  getCompletionDateKey,
+  resolveTimeZone,
+  toDateKey,
+} from "../utils/dates";
 
 type HabitDetailScreenRouteProp = RouteProp<RootStackParamList, "HabitDetail">;
 type HabitDetailScreenNavigationProp = StackNavigationProp<
@@ -56,7 +70,6 @@ const hexToRgba = (hex: string, opacity: number) => {
 
 const HabitDetailScreen: React.FC = () => {
   const [habit, setHabit] = useState<Habit | null>(null);
-  const [stats, setStats] = useState<HabitStats | null>(null);
   const [completions, setCompletions] = useState<HabitCompletion[]>([]);
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
@@ -64,27 +77,83 @@ const HabitDetailScreen: React.FC = () => {
     useState<HabitCompletion | null>(null);
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedTitle, setEditedTitle] = useState("");
-  const [editedIsPublic, setEditedIsPublic] = useState(false);
+  const [editedVisibility, setEditedVisibility] =
+    useState<HabitVisibility>("private");
+  const [editedAudienceListId, setEditedAudienceListId] = useState<
+    string | null
+  >(null);
+  const { lists: audienceLists } = useAudienceLists();
   const [editedColor, setEditedColor] = useState("");
+  const [editedTargetCount, setEditedTargetCount] = useState(1);
+  const [editedWeekdayMask, setEditedWeekdayMask] = useState<number | null>(
+    null
+  );
+  const [editedReminderTimes, setEditedReminderTimes] = useState<string[]>([]);
+  const [editedReminderWeekdayMask, setEditedReminderWeekdayMask] = useState<
+    number | null
+  >(null);
   const [isUpdating, setIsUpdating] = useState(false);
-  const { deleteHabit: deleteHabitFromContext, updateHabit } = useHabits();
+  const {
+    deleteHabit: deleteHabitFromContext,
+    updateHabit,
+    habits,
+    restDays,
+    spendStreakFreeze,
+  } = useHabits();
+  const { user } = useAuth();
 
   const route = useRoute<HabitDetailScreenRouteProp>();
   const navigation = useNavigation<HabitDetailScreenNavigationProp>();
-  const { habitId, initialData } = route.params;
+  const { habitId, initialData, completionId } = route.params;
+  const openedCompletionRef = useRef<string | null>(null);
+
+  const frozenDays = useMemo(
+    () => habits.find((h) => h.id === habitId)?.frozenDays ?? [],
+    [habits, habitId]
+  );
+
+  // Derived locally so freezes and rest days apply as soon as they change
+  const stats = useMemo(
+    () =>
+      habit
+        ? computeHabitStats({
+            habitId: habit.id,
+            completions,
+            schedule: habit,
+            timeZone: resolveTimeZone(user?.timezone),
+            createdAt: habit.created_at,
+            protectedDays: [...frozenDays, ...restDays],
+          })
+        : null,
+    [habit, completions, frozenDays, restDays, user?.timezone]
+  );
 
   useEffect(() => {
     if (initialData) {
       setHabit(initialData);
-      setStats(initialData.stats);
       setCompletions(initialData.completions);
       setLoading(false);
       setEditedTitle(initialData.title);
       setEditedColor(initialData.color);
-      setEditedIsPublic(initialData.is_public);
+      setEditedTargetCount(initialData.target_count || 1);
+      setEditedWeekdayMask(initialData.weekday_mask ?? null);
+      setEditedReminderTimes(initialData.reminder_times || []);
+      setEditedReminderWeekdayMask(initialData.reminder_weekday_mask ?? null);
+      setEditedVisibility(initialData.visibility);
     }
   }, [initialData]);
 
+  // Opened from a notification: show the completion it is about
+  useEffect(() => {
+    if (!completionId || openedCompletionRef.current === completionId) return;
+    const target = completions.find((c) => c.id === completionId);
+    if (target) {
+      openedCompletionRef.current = completionId;
+      setSelectedCompletion(target);
+      setModalVisible(true);
+    }
+  }, [completionId, completions]);
+
   useFocusEffect(
     React.useCallback(() => {
       if (habitId) {
@@ -111,7 +180,11 @@ const HabitDetailScreen: React.FC = () => {
       if (!isEditingName) {
         setEditedTitle(habitData.title);
         setEditedColor(habitData.color);
-        setEditedIsPublic(habitData.is_public);
+        setEditedTargetCount(habitData.target_count || 1);
+        setEditedWeekdayMask(habitData.weekday_mask ?? null);
+        setEditedReminderTimes(habitData.reminder_times || []);
+        setEditedReminderWeekdayMask(habitData.reminder_weekday_mask ?? null);
+        setEditedVisibility(habitData.visibility);
       }
 
       // Fetch habit stats
@@ -124,82 +197,6 @@ const HabitDetailScreen: React.FC = () => {
       if (completionsError) throw completionsError;
 
       setCompletions(completionsData || []);
-
-      const completions = completionsData || [];
-      const totalCompletions = completions.length;
-
-      // Calculate current streak
-      let currentStreak = 0;
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      if (completions.length > 0) {
-        // Check if the most recent completion is today or yesterday
-        const mostRecentDate = new Date(completions[0].completed_at);
-        mostRecentDate.setHours(0, 0, 0, 0);
-
-        const daysSinceLastCompletion = Math.floor(
-          (today.getTime() - mostRecentDate.getTime()) / (1000 * 60 * 60 * 24)
-        );
-
-        // If the last completion was more than 1 day ago, streak is broken
-        if (daysSinceLastCompletion <= 1) {
-          // Start counting streak from the most recent completion
-          let expectedDate = new Date(mostRecentDate);
-
-          for (let i = 0; i < completions.length; i++) {
-            const completionDate = new Date(completions[i].completed_at);
-            completionDate.setHours(0, 0, 0, 0);
-
-            // Check if this completion matches the expected date
-            if (completionDate.getTime() === expectedDate.getTime()) {
-              currentStreak++;
-              // Move expected date back by one day for next iteration
-              expectedDate.setDate(expectedDate.getDate() - 1);
-            } else {
-              // Gap found, streak is broken
-              break;
-            }
-          }
-        }
-      }
-
-      // Calculate longest streak by analyzing all completion history
-      let longestStreak = 0;
-      if (completions.length > 0) {
-        let tempStreak = 1;
-        longestStreak = 1;
-
-        for (let i = 1; i < completions.length; i++) {
-          const currentDate = new Date(completions[i - 1].completed_at);
-          const previousDate = new Date(completions[i].completed_at);
-          currentDate.setHours(0, 0, 0, 0);
-          previousDate.setHours(0, 0, 0, 0);
-
-          const daysDiff = Math.floor(
-            (currentDate.getTime() - previousDate.getTime()) /
-              (1000 * 60 * 60 * 24)
-          );
-
-          if (daysDiff === 1) {
-            // Consecutive days
-            tempStreak++;
-            longestStreak = Math.max(longestStreak, tempStreak);
-          } else {
-            // Gap found, reset streak
-            tempStreak = 1;
-          }
-        }
-      }
-
-      setStats({
-        habit_id: habitId,
-        current_streak: currentStreak,
-        longest_streak: longestStreak,
-        total_completions: totalCompletions,
-        completion_rate: 0, // Simplified
-        last_completed: completions[0]?.completed_at || null,
-      });
     } catch (error) {
       console.error("Error fetching habit details:", error);
       Alert.alert("Error", "Failed to load habit details");
@@ -234,6 +231,46 @@ const HabitDetailScreen: React.FC = () => {
     navigation.navigate("DualCamera", { habitId, selectedDate });
   };
 
+  const handleDayLongPress = (dateKey: string) => {
+    if (!habit || isEditingName) return;
+
+    // Only missed days in the past can be frozen
+    const timeZone = resolveTimeZone(user?.timezone);
+    if (
+      dateKey >= toDateKey(new Date(), timeZone) ||
+      completions.some(
+        (completion) => getCompletionDateKey(completion, timeZone) === dateKey
+      ) ||
+      frozenDays.includes(dateKey) ||
+      restDays.includes(dateKey)
+    ) {
+      return;
+    }
+
+    const tokens = user?.streak_freeze_tokens ?? 0;
+    const dateLabel = dateKeyToLocalDate(dateKey).toLocaleDateString();
+
+    if (tokens <= 0) {
+      Alert.alert(
+        "No Streak Freezes",
+        "You earn a streak freeze for every 7 days in a row you check in."
+      );
+      return;
+    }
+
+    Alert.alert(
+      "Use Streak Freeze",
+      `Protect your streak for ${dateLabel}? You have ${tokens} left.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Use Freeze",
+          onPress: () => spendStreakFreeze(habit.id, dateKey),
+        },
+      ]
+    );
+  };
+
   const handleCloseModal = () => {
     setModalVisible(false);
     setSelectedCompletion(null);
@@ -267,7 +304,12 @@ const HabitDetailScreen: React.FC = () => {
       if (habit) {
         setEditedTitle(habit.title);
         setEditedColor(habit.color);
-        setEditedIsPublic(habit.is_public);
+        setEditedTargetCount(habit.target_count || 1);
+        setEditedWeekdayMask(habit.weekday_mask ?? null);
+        setEditedReminderTimes(habit.reminder_times || []);
+        setEditedReminderWeekdayMask(habit.reminder_weekday_mask ?? null);
+        setEditedVisibility(habit.visibility);
+        setEditedAudienceListId(habit.audience_list_id ?? null);
         setIsEditingName(true);
       }
     }
@@ -275,13 +317,26 @@ const HabitDetailScreen: React.FC = () => {
 
   const handleSaveChanges = async () => {
     if (!habit || !editedTitle.trim()) return;
+    if (editedVisibility === "list" && !editedAudienceListId) {
+      Alert.alert("Choose a List", "Pick who should see this habit.");
+      return;
+    }
 
     setIsUpdating(true);
     try {
       const updates = {
         title: editedTitle.trim(),
-        is_public: editedIsPublic,
+        visibility: editedVisibility,
+        is_public: editedVisibility === "public",
+        audience_list_id:
+          editedVisibility === "list" ? editedAudienceListId : null,
         color: editedColor,
+        target_count: habit.frequency === "daily" ? 1 : editedTargetCount,
+        weekday_mask: habit.frequency === "daily" ? editedWeekdayMask : null,
+        reminder_times: editedReminderTimes,
+        reminder_weekday_mask: editedReminderTimes.length
+          ? editedReminderWeekdayMask
+          : null,
       };
 
       const { error } = await supabase
@@ -313,7 +368,12 @@ const HabitDetailScreen: React.FC = () => {
     if (habit) {
       setEditedTitle(habit.title);
       setEditedColor(habit.color);
-      setEditedIsPublic(habit.is_public);
+      setEditedTargetCount(habit.target_count || 1);
+      setEditedWeekdayMask(habit.weekday_mask ?? null);
+      setEditedReminderTimes(habit.reminder_times || []);
+      setEditedReminderWeekdayMask(habit.reminder_weekday_mask ?? null);
+      setEditedVisibility(habit.visibility);
+      setEditedAudienceListId(habit.audience_list_id ?? null);
     }
   };
 
@@ -428,6 +488,45 @@ const HabitDetailScreen: React.FC = () => {
               <Text style={styles.statLabel}>Longest{"\n"}Streak</Text>
             </View>
           </View>
+
+          <View style={styles.strengthContainer}>
+            <View style={styles.strengthHeader}>
+              <Text style={styles.strengthLabel}>Habit Strength</Text>
+              <Text style={styles.strengthValue}>
+                {formatPercent(stats.strength)}
+              </Text>
+            </View>
+            <View style={styles.strengthTrack}>
+              <View
+                style={[
+                  styles.strengthFill,
+                  {
+                    width: `${Math.round(stats.strength * 100)}%`,
+                    backgroundColor: habit.color,
+                  },
+                ]}
+              />
+            </View>
+          </View>
+
+          <View style={styles.statsRow}>
+            {[
+              { label: "7 Days", value: stats.completion_rate_7d },
+              { label: "30 Days", value: stats.completion_rate_30d },
+              { label: "90 Days", value: stats.completion_rate_90d },
+              { label: "All Time", value: stats.completion_rate },
+            ].map((rate, index) => (
+              <React.Fragment key={rate.label}>
+                {index > 0 && <View style={styles.statDivider} />}
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>
+                    {formatPercent(rate.value)}
+                  </Text>
+                  <Text style={styles.statLabel}>{rate.label}</Text>
+                </View>
+              </React.Fragment>
+            ))}
+          </View>
         </View>
 
         <View style={styles.calendarContainer}>
@@ -436,9 +535,14 @@ const HabitDetailScreen: React.FC = () => {
             habitId={habit.id}
             habitTitle={habit.title}
             habitColor={isEditingName ? editedColor : habit.color}
+            schedule={habit}
+            timeZone={resolveTimeZone(user?.timezone)}
             completions={completions}
             onCompletionPress={handleCompletionPress}
             onDayPress={handleDayPress}
+            onDayLongPress={handleDayLongPress}
+            frozenDays={frozenDays}
+            restDays={restDays}
             hideHeader={true}
             showMonthNavigation={true}
             compact={true}
@@ -622,55 +726,134 @@ const HabitDetailScreen: React.FC = () => {
             </Text>
           </View>
 
-          <View style={styles.infoRow}>
-            <Ionicons name="repeat-outline" size={20} color="#666" />
-            <Text style={styles.infoLabel}>Frequency</Text>
-            <Text style={styles.infoValue}>{habit.frequency}</Text>
+          <View
+            style={[
+              styles.infoRow,
+              isEditingName && {
+                flexDirection: "column",
+                alignItems: "stretch",
+                gap: 12,
+              },
+            ]}
+          >
+            <View style={{ flexDirection: "row", alignItems: "center" }}>
+              <Ionicons name="repeat-outline" size={20} color="#666" />
+              <Text style={styles.infoLabel}>Schedule</Text>
+              {!isEditingName && (
+                <Text style={styles.infoValue}>{describeSchedule(habit)}</Text>
+              )}
+            </View>
+
+            {isEditingName && (
+              <ScheduleSelector
+                frequency={habit.frequency}
+                targetCount={editedTargetCount}
+                weekdayMask={editedWeekdayMask}
+                onTargetCountChange={setEditedTargetCount}
+                onWeekdayMaskChange={setEditedWeekdayMask}
+                compact={true}
+              />
+            )}
           </View>
 
-          <View style={styles.infoRow}>
-            <Ionicons
-              name={
-                (isEditingName ? editedIsPublic : habit.is_public)
-                  ? "globe-outline"
-                  : "lock-closed-outline"
-              }
-              size={20}
-              color="#666"
-            />
-            <Text style={styles.infoLabel}>Visibility</Text>
-            {isEditingName ? (
-              <View style={styles.privacyToggleContainer}>
-                <TouchableOpacity onPress={() => setEditedIsPublic(true)}>
-                  <Text
-                    style={[
-                      styles.privacyOption,
-                      editedIsPublic
-                        ? styles.privacyOptionActive
-                        : styles.privacyOptionInactive,
-                    ]}
-                  >
-                    Public
-                  </Text>
-                </TouchableOpacity>
-                <Text style={styles.privacySeparator}> / </Text>
-                <TouchableOpacity onPress={() => setEditedIsPublic(false)}>
-                  <Text
-                    style={[
-                      styles.privacyOption,
-                      !editedIsPublic
-                        ? styles.privacyOptionActive
-                        : styles.privacyOptionInactive,
-                    ]}
-                  >
-                    Private
-                  </Text>
-                </TouchableOpacity>
+          <View
+            style={[
+              styles.infoRow,
+              isEditingName && {
+                flexDirection: "column",
+                alignItems: "stretch",
+                gap: 12,
+              },
+            ]}
+          >
+            <View style={{ flexDirection: "row", alignItems: "center" }}>
+              <Ionicons name="alarm-outline" size={20} color="#666" />
+              <Text style={styles.infoLabel}>Reminders</Text>
+              {!isEditingName && (
+                <Text style={styles.infoValue}>
+                  {describeReminders(
+                    habit.reminder_times,
+                    habit.reminder_weekday_mask
+                  )}
+                </Text>
+              )}
+            </View>
+
+            {isEditingName && (
+              <ReminderSelector
+                times={editedReminderTimes}
+                weekdayMask={editedReminderWeekdayMask}
+                onTimesChange={setEditedReminderTimes}
+                onWeekdayMaskChange={setEditedReminderWeekdayMask}
+              />
+            )}
+          </View>
+
+          <View
+            style={[
+              styles.infoRow,
+              isEditingName && {
+                flexDirection: "column",
+                alignItems: "stretch",
+                gap: 12,
+              },
+            ]}
+          >
+            <View style={{ flexDirection: "row", alignItems: "center" }}>
+              <Ionicons
+                name={
+                  getVisibilityOption(
+                    isEditingName ? editedVisibility : habit.visibility
+                  ).icon
+                }
+                size={20}
+                color="#666"
+              />
+              <Text style={styles.infoLabel}>Visibility</Text>
+              {!isEditingName && (
+                <Text style={styles.infoValue}>
+                  {habit.visibility === "list"
+                    ? audienceLists.find(
+                        (list) => list.id === habit.audience_list_id
+                      )?.name || "List"
+                    : getVisibilityOption(habit.visibility).label}
+                </Text>
+              )}
+            </View>
+
+            {isEditingName && (
+              <View>
+                <View style={styles.privacyToggleContainer}>
+                  {VISIBILITY_OPTIONS.map((option, index) => (
+                    <React.Fragment key={option.value}>
+                      {index > 0 && (
+                        <Text style={styles.privacySeparator}> / </Text>
+                      )}
+                      <TouchableOpacity
+                        onPress={() => setEditedVisibility(option.value)}
+                      >
+                        <Text
+                          style={[
+                            styles.privacyOption,
+                            editedVisibility === option.value
+                              ? styles.privacyOptionActive
+                              : styles.privacyOptionInactive,
+                          ]}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    </React.Fragment>
+                  ))}
+                </View>
+                {editedVisibility === "list" && (
+                  <AudienceListPicker
+                    lists={audienceLists}
+                    selectedListId={editedAudienceListId}
+                    onSelect={setEditedAudienceListId}
+                  />
+                )}
               </View>
-            ) : (
-              <Text style={styles.infoValue}>
-                {habit.is_public ? "Public" : "Private"}
-              </Text>
             )}
           </View>
         </View>
@@ -766,6 +949,34 @@ const styles = StyleSheet.create({
     alignItems: "center",
     flex: 1,
   },
+  strengthContainer: {
+    marginVertical: 16,
+  },
+  strengthHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  strengthLabel: {
+    fontSize: 14,
+    color: "#666",
+    fontWeight: "500",
+  },
+  strengthValue: {
+    fontSize: 14,
+    color: "#1a1a1a",
+    fontWeight: "600",
+  },
+  strengthTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#f0f0f0",
+    overflow: "hidden",
+  },
+  strengthFill: {
+    height: "100%",
+    borderRadius: 4,
+  },
   statDivider: {
     width: 1,
     height: 40,
@@ -16,13 +16,16 @@ import { Ionicons } from "@expo/vector-icons";
 import { useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { useAuth } from "../contexts/AuthContext";
-import { useUpload } from "../contexts/UploadContext";
+import { resolveTimeZone, toDateKey } from "../utils/dates";
+import { useUpload, UploadState } from "../contexts/UploadContext";
 import { useHabits, HabitWithStats } from "../contexts/HabitContext";
 import { HabitCompletion } from "../types";
 import { RootStackParamList } from "../types";
 import HabitCalendar from "../components/HabitCalendar";
 import ImageModal from "../components/ImageModal";
 import { useCollapsibleHeader } from "../hooks/useCollapsibleHeader";
+import { FREQUENCY_PERIOD_LABELS, getTargetCount } from "../utils/frequency";
+import { formatPercent } from "../utils/habitStats";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
 type HabitsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
@@ -39,14 +42,41 @@ const hexToRgba = (hex: string, opacity: number) => {
     : `rgba(0, 0, 0, ${opacity})`;
 };
 
+// Only an upload still in flight stands in for a completion; once it
+// completes, completedToday and completedThisPeriod take over
+const isUploadPending = (upload?: UploadState) =>
+  upload?.status === "uploading" || upload?.status === "waiting";
+
+// A habit can have several captures queued, e.g. today's and a backdated
+// one; this is the newest still in flight, optionally for one day only
+const findPendingUpload = (
+  uploads: Record<string, UploadState>,
+  habitId: string,
+  dateKey?: string
+) =>
+  Object.values(uploads)
+    .filter(
+      (upload) =>
+        upload.habitId === habitId &&
+        isUploadPending(upload) &&
+        (!dateKey || upload.localDate === dateKey)
+    )
+    .sort((a, b) => b.fileStamp - a.fileStamp)[0];
+
 const HabitsScreen: React.FC = () => {
-  const { habits, loading, refreshing, fetchHabits, addHabitCompletion } =
-    useHabits();
+  const {
+    habits,
+    loading,
+    refreshing,
+    fetchHabits,
+    addHabitCompletion,
+    restDays,
+  } = useHabits();
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedCompletion, setSelectedCompletion] =
     useState<HabitCompletion | null>(null);
   const { user } = useAuth();
-  const { uploads } = useUpload();
+  const { uploads, cancelUpload } = useUpload();
   const navigation = useNavigation<HabitsScreenNavigationProp>();
   const { scrollY, translateY, handleScroll } =
     useCollapsibleHeader(HEADER_HEIGHT);
@@ -56,35 +86,36 @@ const HabitsScreen: React.FC = () => {
   // Listen for upload completions to refresh data
   useEffect(() => {
     // Check for new completions
-    Object.entries(uploads).forEach(([habitId, upload]) => {
+    Object.entries(uploads).forEach(([uploadId, upload]) => {
       if (
         upload.status === "completed" &&
-        !completedUploadsRef.current.has(habitId)
+        !completedUploadsRef.current.has(uploadId)
       ) {
-        completedUploadsRef.current.add(habitId);
+        completedUploadsRef.current.add(uploadId);
 
         // Instead of fetching all habits, we update the local state with the completed upload
         // We use the local URIs for immediate display
         if (user) {
           const newCompletion: HabitCompletion = {
             id: `temp-${Date.now()}`,
-            habit_id: habitId,
+            habit_id: upload.habitId,
             user_id: user.id,
             image_url: upload.backUri, // Use local URI
             front_image_url: upload.frontUri, // Use local URI
-            completed_at: new Date().toISOString(),
+            completed_at: upload.completedAt,
+            local_date: upload.localDate,
             created_at: new Date().toISOString(),
           };
 
-          addHabitCompletion(habitId, newCompletion);
+          addHabitCompletion(upload.habitId, newCompletion);
         }
       }
     });
 
     // Cleanup: Remove IDs that are no longer in uploads or not completed
-    completedUploadsRef.current.forEach((habitId: string) => {
-      if (!uploads[habitId] || uploads[habitId].status !== "completed") {
-        completedUploadsRef.current.delete(habitId);
+    completedUploadsRef.current.forEach((uploadId: string) => {
+      if (!uploads[uploadId] || uploads[uploadId].status !== "completed") {
+        completedUploadsRef.current.delete(uploadId);
       }
     });
   }, [uploads, user, addHabitCompletion]);
@@ -97,14 +128,20 @@ const HabitsScreen: React.FC = () => {
   }, [user, fetchHabits]);
 
   const handleCompleteHabit = (habit: HabitWithStats) => {
-    const upload = uploads[habit.id];
+    const todayKey = toDateKey(new Date(), resolveTimeZone(user?.timezone));
     const isOptimisticallyCompleted =
-      habit.completedToday || (upload && upload.status !== "error");
+      habit.completedToday ||
+      habit.completedThisPeriod ||
+      !!findPendingUpload(uploads, habit.id, todayKey);
 
     if (isOptimisticallyCompleted) {
       Alert.alert(
         "Already Completed",
-        "You have already completed this habit today!"
+        `You have already completed this habit ${
+          habit.completedThisPeriod
+            ? FREQUENCY_PERIOD_LABELS[habit.frequency]
+            : "today"
+        }!`
       );
       return;
     }
@@ -113,6 +150,17 @@ const HabitsScreen: React.FC = () => {
     navigation.navigate("DualCamera", { habitId: habit.id });
   };
 
+  const handleCancelUpload = (uploadId: string) => {
+    Alert.alert("Cancel Upload", "Stop posting this completion?", [
+      { text: "Keep Uploading", style: "cancel" },
+      {
+        text: "Cancel Upload",
+        style: "destructive",
+        onPress: () => cancelUpload(uploadId),
+      },
+    ]);
+  };
+
   const onRefresh = () => {
     fetchHabits();
   };
@@ -128,10 +176,14 @@ const HabitsScreen: React.FC = () => {
   };
 
   const renderHabitItem = ({ item }: { item: HabitWithStats }) => {
-    const upload = uploads[item.id];
+    const timeZone = resolveTimeZone(user?.timezone);
+    const upload = findPendingUpload(uploads, item.id);
     const isUploading = upload?.status === "uploading";
     const isOptimisticallyCompleted =
-      item.completedToday || (upload && upload.status !== "error");
+      item.completedToday ||
+      item.completedThisPeriod ||
+      !!findPendingUpload(uploads, item.id, toDateKey(new Date(), timeZone));
+    const targetCount = getTargetCount(item);
 
     const cardBackgroundColor = hexToRgba(item.color, 0.15); // Increased opacity for richer color
     const borderColor = hexToRgba(item.color, 0.2);
@@ -254,8 +306,19 @@ const HabitsScreen: React.FC = () => {
             {item.description && (
               <Text style={styles.habitDescription}>{item.description}</Text>
             )}
+            {item.stats?.total_completions > 0 && (
+              <Text style={styles.habitStrength}>
+                Strength {formatPercent(item.stats.strength)} · 30d{" "}
+                {formatPercent(item.stats.completion_rate_30d)}
+              </Text>
+            )}
           </View>
           <View style={styles.habitActions}>
+            {targetCount > 1 && (
+              <Text style={styles.periodProgress}>
+                {Math.min(item.periodCompletions, targetCount)}/{targetCount}
+              </Text>
+            )}
             {item.stats?.current_streak > 0 && (
               <View
                 style={[
@@ -321,16 +384,27 @@ const HabitsScreen: React.FC = () => {
             habitId={item.id}
             habitTitle={item.title}
             habitColor={item.color}
+            schedule={item}
+            timeZone={timeZone}
             completions={item.completions}
+            frozenDays={item.frozenDays}
+            restDays={restDays}
             onCompletionPress={handleCompletionPress}
             compact={true}
             hideHeader={true}
             showMonthNavigation={false}
             isUploading={isUploading}
             uploadProgress={upload ? upload.progress : 0}
+            onCancelUpload={() =>
+              upload && handleCancelUpload(upload.idempotencyKey)
+            }
             uploadingImages={
               upload
-                ? { backUri: upload.backUri, frontUri: upload.frontUri }
+                ? {
+                    backUri: upload.backUri,
+                    frontUri: upload.frontUri,
+                    localDate: upload.localDate,
+                  }
                 : undefined
             }
           />
@@ -512,6 +586,11 @@ const styles = StyleSheet.create({
     alignItems: "center",
     gap: 4,
   },
+  periodProgress: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8E8E93",
+  },
   privacyButton: {
     padding: 8,
   },
@@ -533,6 +612,12 @@ const styles = StyleSheet.create({
     color: "#8E8E93", // Standard iOS subtitle gray
     lineHeight: 20,
   },
+  habitStrength: {
+    fontSize: 13,
+    color: "#8E8E93",
+    fontWeight: "500",
+    marginTop: 4,
+  },
   completeButton: {
     padding: 4,
   },
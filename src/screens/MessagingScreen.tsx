@@ -18,6 +18,7 @@ import { StackNavigationProp } from "@react-navigation/stack";
 import { Ionicons } from "@expo/vector-icons";
 import { supabase } from "../services/supabase";
 import { useAuth } from "../contexts/AuthContext";
+import { fetchBlockedUserIds } from "../services/blocks";
 import { Message } from "../types";
 import { RootStackParamList } from "../types";
 
@@ -45,8 +46,24 @@ const MessagingScreen: React.FC = () => {
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
+  const [blocked, setBlocked] = useState(false); // Either side blocked the other
   const flatListRef = useRef<FlatList>(null);
 
+  useEffect(() => {
+    if (!user) return;
+
+    const checkBlocked = async () => {
+      try {
+        const blockedIds = await fetchBlockedUserIds();
+        setBlocked(blockedIds.includes(friendId));
+      } catch (error) {
+        console.error("Error checking blocks:", error);
+      }
+    };
+
+    checkBlocked();
+  }, [user?.id, friendId]);
+
   const fetchMessages = useCallback(
     async (useCache = false) => {
       if (!user) return;
@@ -126,7 +143,7 @@ const MessagingScreen: React.FC = () => {
   );
 
   const sendMessage = async () => {
-    if (!user || !newMessage.trim()) return;
+    if (!user || !newMessage.trim() || blocked) return;
 
     Keyboard.dismiss();
     setSending(true);
@@ -329,31 +346,40 @@ const MessagingScreen: React.FC = () => {
         }
       />
 
-      <View style={styles.inputContainer}>
-        <TextInput
-          style={styles.textInput}
-          placeholder="Type a message..."
-          placeholderTextColor="#8E8E93"
-          value={newMessage}
-          onChangeText={setNewMessage}
-          multiline
-          maxLength={1000}
-        />
-        <TouchableOpacity
-          style={[
-            styles.sendButton,
-            (!newMessage.trim() || sending) && styles.sendButtonDisabled,
-          ]}
-          onPress={sendMessage}
-          disabled={!newMessage.trim() || sending}
-        >
-          <Ionicons
-            name={sending ? "hourglass-outline" : "send"}
-            size={20}
-            color={!newMessage.trim() || sending ? "#8E8E93" : "#007AFF"}
+      {blocked ? (
+        <View style={styles.blockedContainer}>
+          <Ionicons name="ban-outline" size={18} color="#8E8E93" />
+          <Text style={styles.blockedText}>
+            You can't message this account.
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.inputContainer}>
+          <TextInput
+            style={styles.textInput}
+            placeholder="Type a message..."
+            placeholderTextColor="#8E8E93"
+            value={newMessage}
+            onChangeText={setNewMessage}
+            multiline
+            maxLength={1000}
           />
-        </TouchableOpacity>
-      </View>
+          <TouchableOpacity
+            style={[
+              styles.sendButton,
+              (!newMessage.trim() || sending) && styles.sendButtonDisabled,
+            ]}
+            onPress={sendMessage}
+            disabled={!newMessage.trim() || sending}
+          >
+            <Ionicons
+              name={sending ? "hourglass-outline" : "send"}
+              size={20}
+              color={!newMessage.trim() || sending ? "#8E8E93" : "#007AFF"}
+            />
+          </TouchableOpacity>
+        </View>
+      )}
     </KeyboardAvoidingView>
   );
 };
@@ -475,6 +501,20 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: "center",
   },
+  blockedContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: "#e1e5e9",
+    backgroundColor: "#fff",
+  },
+  blockedText: {
+    fontSize: 15,
+    color: "#8E8E93",
+    marginLeft: 8,
+  },
   inputContainer: {
     flexDirection: "row",
     alignItems: "flex-end",
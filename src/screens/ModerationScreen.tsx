@@ -0,0 +1,412 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Image,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect, useNavigation } from "@react-navigation/native";
+import { useAuth } from "../contexts/AuthContext";
+import { CachedImage } from "../components/CachedImage";
+import { REPORT_REASONS } from "../components/FeedItemMenu";
+import {
+  ReportedCompletion,
+  dismissReports,
+  fetchReportQueue,
+  removeReportedCompletion,
+  suspendUser,
+} from "../services/moderation";
+
+const getReasonLabel = (reason: string) =>
+  REPORT_REASONS.find((r) => r.value === reason)?.label ?? reason;
+
+// Reachable from Settings for users with the moderator role only
+const ModerationScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<ReportedCompletion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setQueue(await fetchReportQueue());
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      Alert.alert("Error", "Failed to load reports");
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchQueue();
+    }, [fetchQueue])
+  );
+
+  const getKey = (item: ReportedCompletion) => item.reports[0].id;
+
+  const runAction = async (
+    item: ReportedCompletion,
+    action: () => Promise<void>,
+    failureMessage: string
+  ) => {
+    setBusyKey(getKey(item));
+    try {
+      await action();
+      await fetchQueue();
+    } catch (error) {
+      console.error("Error moderating report:", error);
+      Alert.alert("Error", failureMessage);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDismiss = (item: ReportedCompletion) => {
+    runAction(
+      item,
+      () => dismissReports(item.reports.map((r) => r.id)),
+      "Failed to dismiss reports"
+    );
+  };
+
+  const handleRemove = (item: ReportedCompletion) => {
+    Alert.alert(
+      "Remove Post",
+      "Delete this completion and its photos? This can't be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () =>
+            runAction(
+              item,
+              () => removeReportedCompletion(item),
+              "Failed to remove post"
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleSuspend = (item: ReportedCompletion) => {
+    const reportedUser = item.reportedUser;
+    if (!reportedUser) return;
+    // Whoever posted the completion, not whoever the report named
+    const reportedUserId = item.completion?.user_id ?? reportedUser.id;
+    if (reportedUserId === user?.id) {
+      Alert.alert("Not Allowed", "You can't suspend your own account.");
+      return;
+    }
+
+    Alert.alert(
+      "Suspend User",
+      `Suspend ${reportedUser.username}? They won't be able to post until the suspension is lifted.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Suspend",
+          style: "destructive",
+          onPress: () =>
+            runAction(
+              item,
+              () => suspendUser(reportedUserId),
+              "Failed to suspend user"
+            ),
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: ReportedCompletion }) => {
+    const busy = busyKey === getKey(item);
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <View style={styles.avatar}>
+            {item.reportedUser?.avatar_url ? (
+              <Image
+                source={{ uri: item.reportedUser.avatar_url }}
+                style={styles.avatar}
+              />
+            ) : (
+              <Ionicons name="person" size={16} color="#666" />
+            )}
+          </View>
+          <View style={styles.cardHeaderText}>
+            <Text style={styles.username}>
+              {item.reportedUser?.username ?? "Unknown User"}
+            </Text>
+            {item.completion?.habit?.title && (
+              <Text style={styles.habitTitle}>
+                {item.completion.habit.title}
+              </Text>
+            )}
+          </View>
+          <Text style={styles.reportCount}>
+            {item.reports.length} report{item.reports.length === 1 ? "" : "s"}
+          </Text>
+        </View>
+
+        {item.completion ? (
+          <View style={styles.imagesRow}>
+            {item.completion.image_url && (
+              <CachedImage
+                source={{ uri: item.completion.image_url }}
+                style={styles.image}
+              />
+            )}
+            {item.completion.front_image_url && (
+              <CachedImage
+                source={{ uri: item.completion.front_image_url }}
+                style={styles.image}
+              />
+            )}
+          </View>
+        ) : (
+          <Text style={styles.deletedText}>
+            The completion has already been deleted.
+          </Text>
+        )}
+
+        {item.reports.map((report) => (
+          <View key={report.id} style={styles.reportRow}>
+            <Text style={styles.reason}>{getReasonLabel(report.reason)}</Text>
+            <Text style={styles.reporter}>
+              by {report.reporter?.username ?? "unknown"}
+            </Text>
+            {report.details ? (
+              <Text style={styles.details}>{report.details}</Text>
+            ) : null}
+          </View>
+        ))}
+
+        {busy ? (
+          <ActivityIndicator style={styles.busy} color="#666" />
+        ) : (
+          <View style={styles.actionsRow}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleDismiss(item)}
+            >
+              <Text style={styles.actionText}>Dismiss</Text>
+            </TouchableOpacity>
+            {item.completion && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleRemove(item)}
+              >
+                <Text style={[styles.actionText, styles.destructiveText]}>
+                  Remove
+                </Text>
+              </TouchableOpacity>
+            )}
+            {item.reportedUser && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleSuspend(item)}
+              >
+                <Text style={[styles.actionText, styles.destructiveText]}>
+                  Suspend
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Reports</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color="#666" />
+      ) : (
+        <FlatList
+          data={queue}
+          renderItem={renderItem}
+          keyExtractor={getKey}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                fetchQueue();
+              }}
+            />
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>No open reports. All clear!</Text>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fff",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 24,
+    backgroundColor: "#fff",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+  },
+  placeholder: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: "#1a1a1a",
+    letterSpacing: -0.5,
+  },
+  loading: {
+    padding: 40,
+  },
+  listContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 40,
+  },
+  card: {
+    borderWidth: 1,
+    borderColor: "#eee",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  avatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "#f0f0f0",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  cardHeaderText: {
+    flex: 1,
+  },
+  username: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1a1a1a",
+  },
+  habitTitle: {
+    fontSize: 13,
+    color: "#999",
+    marginTop: 2,
+  },
+  reportCount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#FF3B30",
+  },
+  imagesRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  image: {
+    flex: 1,
+    aspectRatio: 3 / 4,
+    borderRadius: 12,
+    backgroundColor: "#f0f0f0",
+  },
+  deletedText: {
+    fontSize: 14,
+    color: "#999",
+    marginBottom: 12,
+  },
+  reportRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#f5f5f5",
+  },
+  reason: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#333",
+  },
+  reporter: {
+    fontSize: 13,
+    color: "#999",
+    marginTop: 2,
+  },
+  details: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 4,
+  },
+  busy: {
+    paddingVertical: 12,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#eee",
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  destructiveText: {
+    color: "#FF3B30",
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#999",
+    fontSize: 15,
+    padding: 40,
+  },
+});
+
+export default ModerationScreen;
@@ -30,7 +30,7 @@ interface FriendRequestWithSender extends FriendRequest {
 
 interface NotificationItem {
   id: string;
-  type: "friend_request" | "friend_accepted" | "message";
+  type: Notification["type"];
   title: string;
   message: string;
   read: boolean;
@@ -207,6 +207,14 @@ const NotificationsScreen: React.FC = () => {
           });
         }
         break;
+      case "encouragement":
+        if (notification.data?.habit_id) {
+          navigation.navigate("HabitDetail", {
+            habitId: notification.data.habit_id,
+            completionId: notification.data.completion_id,
+          });
+        }
+        break;
     }
   };
 
@@ -279,6 +287,14 @@ const NotificationsScreen: React.FC = () => {
       >
         <View style={styles.notificationContent}>
           <View style={styles.notificationHeader}>
+            {item.type === "encouragement" && (
+              <Ionicons
+                name="sparkles"
+                size={18}
+                color="#6C5CE7"
+                style={styles.notificationIcon}
+              />
+            )}
             <View style={styles.notificationInfo}>
               <Text style={styles.notificationTitle}>{item.title}</Text>
               <Text style={styles.notificationTime}>
@@ -432,6 +448,10 @@ const styles = StyleSheet.create({
   notificationInfo: {
     flex: 1,
   },
+  notificationIcon: {
+    marginRight: 10,
+    marginTop: 2,
+  },
   notificationTitle: {
     color: "#1a1a1a",
     fontSize: 16,
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useNavigation } from "@react-navigation/native";
+import { useUpload, UploadState } from "../contexts/UploadContext";
+import { useHabits } from "../contexts/HabitContext";
+
+const describeStatus = (upload: UploadState, now: number) => {
+  switch (upload.status) {
+    case "uploading":
+      return `Uploading… ${upload.progress}%`;
+    case "waiting": {
+      const seconds = Math.max(
+        0,
+        Math.ceil(((upload.nextAttemptAt ?? now) - now) / 1000)
+      );
+      return seconds > 0 ? `Retrying in ${seconds}s` : "Retrying…";
+    }
+    default:
+      return upload.error ? `Failed: ${upload.error}` : "Failed";
+  }
+};
+
+const PendingUploadsScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { uploads, retryUpload, discardUpload } = useUpload();
+  const { habits } = useHabits();
+  const [now, setNow] = useState(Date.now());
+
+  const pending = Object.values(uploads)
+    .filter((upload) => upload.status !== "completed")
+    .sort((a, b) => a.fileStamp - b.fileStamp);
+
+  // Tick the retry countdowns
+  const hasWaiting = pending.some((upload) => upload.status === "waiting");
+  useEffect(() => {
+    if (!hasWaiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasWaiting]);
+
+  const handleDiscard = (upload: UploadState) => {
+    Alert.alert(
+      "Discard Upload",
+      "Delete these photos? The completion won't be posted.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => discardUpload(upload.idempotencyKey),
+        },
+      ]
+    );
+  };
+
+  const renderUpload = ({ item }: { item: UploadState }) => {
+    const habit = habits.find((h) => h.id === item.habitId);
+    const uploading = item.status === "uploading";
+
+    return (
+      <View style={styles.uploadRow}>
+        <Image source={{ uri: item.backUri }} style={styles.thumbnail} />
+        <View style={styles.uploadInfo}>
+          <Text style={styles.habitTitle} numberOfLines={1}>
+            {habit?.title ?? "Habit"}
+          </Text>
+          <Text style={styles.dateText}>{item.localDate}</Text>
+          <Text
+            style={[
+              styles.statusText,
+              item.status === "error" && styles.errorText,
+            ]}
+            numberOfLines={2}
+          >
+            {describeStatus(item, now)}
+          </Text>
+        </View>
+        {uploading ? (
+          <ActivityIndicator color="#666" style={styles.spinner} />
+        ) : (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => retryUpload(item.idempotencyKey)}
+            >
+              <Ionicons name="refresh" size={22} color="#007AFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => handleDiscard(item)}
+            >
+              <Ionicons name="trash-outline" size={22} color="#FF3B30" />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Pending Uploads</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <FlatList
+        data={pending}
+        renderItem={renderUpload}
+        keyExtractor={(item) => item.idempotencyKey}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="cloud-done-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>Everything has been uploaded.</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fff",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 24,
+    backgroundColor: "#fff",
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+  },
+  placeholder: {
+    width: 40,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: "#1a1a1a",
+    letterSpacing: -0.5,
+  },
+  listContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 40,
+  },
+  uploadRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f5f5f5",
+  },
+  thumbnail: {
+    width: 56,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: "#f0f0f0",
+  },
+  uploadInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  habitTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1a1a1a",
+  },
+  dateText: {
+    fontSize: 13,
+    color: "#999",
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 4,
+  },
+  errorText: {
+    color: "#FF3B30",
+  },
+  spinner: {
+    paddingHorizontal: 12,
+  },
+  actions: {
+    flexDirection: "row",
+  },
+  iconButton: {
+    padding: 8,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingTop: 80,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: "#999",
+    marginTop: 12,
+  },
+});
+
+export default PendingUploadsScreen;
@@ -33,6 +33,13 @@ import { supabase, BUCKETS } from "../services/supabase";
 import DaySlideshow from "../components/DaySlideshow";
 import DayDetailModal from "../components/DayDetailModal";
 import { CachedImage } from "../components/CachedImage";
+import { computeHabitStats, computeProfileStats } from "../utils/habitStats";
+import {
+  getCompletionDateKey,
+  getDateKeysInRange,
+  resolveTimeZone,
+  toDateKey,
+} from "../utils/dates";
 
 type ProfileScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -72,60 +79,18 @@ const ProfileScreen: React.FC = () => {
   >({});
   const [refreshing, setRefreshing] = useState(false);
 
-  const toLocalDateString = (date: Date) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
-  };
+  const timeZone = resolveTimeZone(user?.timezone);
 
   const stats = useMemo(() => {
     if (!user?.created_at) return null;
 
-    const allCompletions = habits.flatMap((h) => h.completions);
-    const uniqueDates = new Set(
-      allCompletions.map((c) => toLocalDateString(new Date(c.completed_at)))
-    );
-    const daysActive = uniqueDates.size;
-
-    const sortedDates = Array.from(uniqueDates).sort();
-    let maxStreak = 0;
-    let currentStreak = 0;
-    let lastDateStr = "";
-
-    sortedDates.forEach((dateStr) => {
-      if (lastDateStr) {
-        const curr = new Date(dateStr);
-        const prev = new Date(lastDateStr);
-        const diffTime = Math.abs(curr.getTime() - prev.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-        if (diffDays === 1) {
-          currentStreak++;
-        } else {
-          currentStreak = 1;
-        }
-      } else {
-        currentStreak = 1;
-      }
-      if (currentStreak > maxStreak) maxStreak = currentStreak;
-      lastDateStr = dateStr;
-    });
-
-    const joinDate = new Date(user.created_at);
-    const now = new Date();
-    const totalDays = Math.max(
-      1,
-      Math.floor((now.getTime() - joinDate.getTime()) / (1000 * 60 * 60 * 24)) +
-        1
-    );
-    const percentage = Math.round((daysActive / totalDays) * 100);
-
     return {
-      daysActive,
-      longestStreak: maxStreak,
+      ...computeProfileStats(
+        habits.flatMap((h) => h.completions),
+        user.created_at,
+        timeZone
+      ),
       habitCount: habits.length,
-      percentage,
     };
   }, [habits, user]);
 
@@ -135,33 +100,25 @@ const ProfileScreen: React.FC = () => {
 
   const generateDates = () => {
     if (user?.created_at) {
-      const dates: string[] = [];
-      const now = new Date();
-      now.setHours(0, 0, 0, 0);
-
-      const joinDate = new Date(user.created_at);
-      joinDate.setHours(0, 0, 0, 0);
-
-      let currentDate = new Date(now);
-
       // Generate dates from today backwards to join date
-      while (currentDate >= joinDate) {
-        dates.push(toLocalDateString(currentDate));
-        currentDate.setDate(currentDate.getDate() - 1);
-      }
-      setDateList(dates);
+      setDateList(
+        getDateKeysInRange(
+          toDateKey(user.created_at, timeZone),
+          toDateKey(new Date(), timeZone)
+        ).reverse()
+      );
     }
   };
 
   useEffect(() => {
     generateDates();
-  }, [user?.created_at]);
+  }, [user?.created_at, timeZone]);
 
   useEffect(() => {
     const map: Record<string, HabitCompletion[]> = {};
     habits.forEach((habit) => {
       habit.completions.forEach((completion) => {
-        const dateStr = toLocalDateString(new Date(completion.completed_at));
+        const dateStr = getCompletionDateKey(completion, timeZone);
         if (!map[dateStr]) {
           map[dateStr] = [];
         }
@@ -169,7 +126,7 @@ const ProfileScreen: React.FC = () => {
       });
     });
     setCompletionsMap(map);
-  }, [habits]);
+  }, [habits, timeZone]);
 
   const fetchHabits = async () => {
     if (!user) return;
@@ -194,14 +151,13 @@ const ProfileScreen: React.FC = () => {
 
           return {
             ...habit,
-            stats: {
-              habit_id: habit.id,
-              current_streak: 0,
-              longest_streak: 0,
-              total_completions: completions?.length || 0,
-              completion_rate: 0,
-              last_completed: completions?.[0]?.completed_at || null,
-            }, // Minimal stats needed for now
+            stats: computeHabitStats({
+              habitId: habit.id,
+              completions: completions || [],
+              schedule: habit,
+              timeZone: timeZone,
+              createdAt: habit.created_at,
+            }),
             completions: completions || [],
           };
         })
@@ -337,7 +293,7 @@ const ProfileScreen: React.FC = () => {
     const dayNumber = day;
 
     // Check if date is in the future
-    const todayStr = toLocalDateString(new Date());
+    const todayStr = toDateKey(new Date(), timeZone);
     const isFuture = dateStr > todayStr;
 
     return (
@@ -7,22 +7,219 @@ import {
   Alert,
   ScrollView,
   ActivityIndicator,
+  Switch,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
-import { RootStackParamList } from "../types";
+import { RootStackParamList, UserBlock } from "../types";
 import { useAuth } from "../contexts/AuthContext";
 import { supabase, BUCKETS } from "../services/supabase";
 import { useHabits } from "../contexts/HabitContext";
+import { getPendingImagePaths, useUpload } from "../contexts/UploadContext";
+import { unblockUser } from "../services/blocks";
+import {
+  OrphanedImage,
+  deleteOrphanedImages,
+  findOrphanedImages,
+  formatBytes,
+} from "../services/storageGc";
+import {
+  addDays,
+  dateKeyToLocalDate,
+  getDeviceTimeZone,
+  resolveTimeZone,
+  toDateKey,
+} from "../utils/dates";
 
 type SettingsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
+const DEFAULT_NUDGE_HOUR = 20;
+
+const formatHour = (hour: number) =>
+  new Date(2000, 0, 1, hour).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
 const SettingsScreen: React.FC = () => {
   const navigation = useNavigation<SettingsScreenNavigationProp>();
-  const { signOut, user } = useAuth();
-  const { fetchHabits } = useHabits();
+  const { signOut, user, refreshUser } = useAuth();
+  const { fetchHabits, restPeriods, addRestPeriod, deleteRestPeriod } =
+    useHabits();
   const [resetting, setResetting] = React.useState(false);
+  const [cleaningStorage, setCleaningStorage] = React.useState(false);
+  const { uploads } = useUpload();
+  const pendingUploadCount = Object.values(uploads).filter(
+    (upload) => upload.status !== "completed"
+  ).length;
+  const [blockedUsers, setBlockedUsers] = React.useState<UserBlock[]>([]);
+
+  React.useEffect(() => {
+    if (!user) return;
+
+    const fetchBlockedUsers = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("user_blocks")
+          .select(
+            "*, blocked:users!user_blocks_blocked_id_fkey(id, username, avatar_url)"
+          )
+          .eq("blocker_id", user.id)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        setBlockedUsers(data || []);
+      } catch (error) {
+        console.error("Error fetching blocked users:", error);
+      }
+    };
+
+    fetchBlockedUsers();
+  }, [user?.id]);
+
+  const handleUnblock = (block: UserBlock) => {
+    Alert.alert(
+      "Unblock User",
+      `Unblock ${block.blocked?.username ?? "this user"}? You'll be able to see each other again.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Unblock",
+          onPress: async () => {
+            if (!user) return;
+            try {
+              await unblockUser(user.id, block.blocked_id);
+              setBlockedUsers((prev) =>
+                prev.filter((b) => b.blocked_id !== block.blocked_id)
+              );
+            } catch (error) {
+              console.error("Error unblocking user:", error);
+              Alert.alert("Error", "Failed to unblock user");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleToggleAutoFreeze = async (value: boolean) => {
+    if (!user) return;
+    try {
+      const { error } = await supabase
+        .from("users")
+        .update({ auto_streak_freeze: value })
+        .eq("id", user.id);
+
+      if (error) throw error;
+      await refreshUser();
+    } catch (error) {
+      console.error("Error updating streak freeze setting:", error);
+      Alert.alert("Error", "Failed to update setting");
+    }
+  };
+
+  const handleTogglePostToSee = async (value: boolean) => {
+    if (!user) return;
+    try {
+      const { error } = await supabase
+        .from("users")
+        .update({ post_to_see_feed: value })
+        .eq("id", user.id);
+
+      if (error) throw error;
+      await refreshUser();
+    } catch (error) {
+      console.error("Error updating feed setting:", error);
+      Alert.alert("Error", "Failed to update setting");
+    }
+  };
+
+  const homeTimeZone = resolveTimeZone(user?.timezone);
+  const nudgeHour =
+    user?.streak_nudge_hour === undefined
+      ? DEFAULT_NUDGE_HOUR
+      : user.streak_nudge_hour;
+
+  const updateNudgeHour = async (hour: number | null) => {
+    if (!user) return;
+    try {
+      const { error } = await supabase
+        .from("users")
+        .update({ streak_nudge_hour: hour })
+        .eq("id", user.id);
+
+      if (error) throw error;
+      await refreshUser();
+    } catch (error) {
+      console.error("Error updating streak reminder:", error);
+      Alert.alert("Error", "Failed to update setting");
+    }
+  };
+
+  const handleTimeZonePress = () => {
+    const deviceTimeZone = getDeviceTimeZone();
+
+    if (deviceTimeZone === homeTimeZone) {
+      Alert.alert(
+        "Home Time Zone",
+        `Your days are counted in ${homeTimeZone}, which matches this device.`
+      );
+      return;
+    }
+
+    Alert.alert(
+      "Home Time Zone",
+      `Your days are counted in ${homeTimeZone}. Switch to ${deviceTimeZone}? Past check-ins keep the day they were made on.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Switch",
+          onPress: () => updateTimeZone(deviceTimeZone),
+        },
+      ]
+    );
+  };
+
+  const updateTimeZone = async (timezone: string) => {
+    if (!user) return;
+    try {
+      const { error } = await supabase
+        .from("users")
+        .update({ timezone })
+        .eq("id", user.id);
+
+      if (error) throw error;
+      await refreshUser();
+    } catch (error) {
+      console.error("Error updating timezone:", error);
+      Alert.alert("Error", "Failed to update time zone");
+    }
+  };
+
+  const handleAddRestDays = () => {
+    const today = toDateKey(new Date(), homeTimeZone);
+    const addRest = (days: number) =>
+      addRestPeriod(today, addDays(today, days - 1));
+
+    Alert.alert(
+      "Take a Rest",
+      "Streaks are paused for every habit on rest days.",
+      [
+        { text: "Today", onPress: () => addRest(1) },
+        { text: "Next 3 Days", onPress: () => addRest(3) },
+        { text: "Next Week", onPress: () => addRest(7) },
+        { text: "Next 2 Weeks", onPress: () => addRest(14) },
+        { text: "Cancel", style: "cancel" },
+      ]
+    );
+  };
+
+  const formatRestPeriod = (startDate: string, endDate: string) => {
+    const start = dateKeyToLocalDate(startDate).toLocaleDateString();
+    if (startDate === endDate) return start;
+    return `${start} – ${dateKeyToLocalDate(endDate).toLocaleDateString()}`;
+  };
 
   const handleSignOut = () => {
     Alert.alert("Sign Out", "Are you sure you want to sign out?", [
@@ -46,6 +243,56 @@ const SettingsScreen: React.FC = () => {
     );
   };
 
+  // Find images nothing references any more, then offer to delete them
+  const handleCleanUpStorage = async () => {
+    if (!user) return;
+    setCleaningStorage(true);
+    try {
+      const orphans = await findOrphanedImages(
+        user.id,
+        getPendingImagePaths(uploads)
+      );
+      if (orphans.length === 0) {
+        Alert.alert("Clean Up Storage", "No unused images found.");
+        return;
+      }
+
+      const totalBytes = orphans.reduce((sum, o) => sum + (o.size ?? 0), 0);
+      Alert.alert(
+        "Clean Up Storage",
+        `Found ${orphans.length} unused image${
+          orphans.length === 1 ? "" : "s"
+        } (${formatBytes(totalBytes)}). Delete them?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Delete",
+            style: "destructive",
+            onPress: () => performCleanUp(orphans),
+          },
+        ]
+      );
+    } catch (error) {
+      console.error("Error finding unused images:", error);
+      Alert.alert("Error", "Failed to check storage");
+    } finally {
+      setCleaningStorage(false);
+    }
+  };
+
+  const performCleanUp = async (orphans: OrphanedImage[]) => {
+    setCleaningStorage(true);
+    try {
+      await deleteOrphanedImages(orphans);
+      Alert.alert("Clean Up Storage", "Unused images deleted.");
+    } catch (error) {
+      console.error("Error deleting unused images:", error);
+      Alert.alert("Error", "Failed to delete unused images");
+    } finally {
+      setCleaningStorage(false);
+    }
+  };
+
   const performReset = async () => {
     if (!user) return;
     setResetting(true);
@@ -125,6 +372,166 @@ const SettingsScreen: React.FC = () => {
             </View>
             <Text style={styles.menuText}>Notifications</Text>
           </View>
+
+          <View style={styles.menuItem}>
+            <View style={styles.menuIconContainer}>
+              <Ionicons name="flame-outline" size={22} color="#333" />
+            </View>
+            <Text style={styles.menuText}>Streak at Risk Alerts</Text>
+            <Switch
+              value={nudgeHour !== null}
+              onValueChange={(value) =>
+                updateNudgeHour(value ? DEFAULT_NUDGE_HOUR : null)
+              }
+            />
+          </View>
+
+          {nudgeHour !== null && (
+            <View style={styles.menuItem}>
+              <View style={styles.menuIconContainer} />
+              <Text style={styles.menuText}>Check At</Text>
+              <TouchableOpacity
+                style={styles.hourButton}
+                onPress={() => updateNudgeHour((nudgeHour + 23) % 24)}
+              >
+                <Ionicons name="remove" size={18} color="#333" />
+              </TouchableOpacity>
+              <Text style={styles.hourText}>{formatHour(nudgeHour)}</Text>
+              <TouchableOpacity
+                style={styles.hourButton}
+                onPress={() => updateNudgeHour((nudgeHour + 1) % 24)}
+              >
+                <Ionicons name="add" size={18} color="#333" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={styles.menuItem}>
+            <View style={styles.menuIconContainer}>
+              <Ionicons name="eye-off-outline" size={22} color="#333" />
+            </View>
+            <Text style={styles.menuText}>Post to See Feed</Text>
+            <Switch
+              value={user?.post_to_see_feed ?? true}
+              onValueChange={handleTogglePostToSee}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={handleTimeZonePress}
+          >
+            <View style={styles.menuIconContainer}>
+              <Ionicons name="globe-outline" size={22} color="#333" />
+            </View>
+            <Text style={styles.menuText}>Home Time Zone</Text>
+            <Text style={styles.menuValue}>{homeTimeZone}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => navigation.navigate("AudienceLists")}
+          >
+            <View style={styles.menuIconContainer}>
+              <Ionicons name="star-outline" size={22} color="#333" />
+            </View>
+            <Text style={styles.menuText}>Close Friends Lists</Text>
+            <Ionicons name="chevron-forward" size={18} color="#ccc" />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => navigation.navigate("PendingUploads")}
+          >
+            <View style={styles.menuIconContainer}>
+              <Ionicons name="cloud-upload-outline" size={22} color="#333" />
+            </View>
+            <Text style={styles.menuText}>Pending Uploads</Text>
+            {pendingUploadCount > 0 && (
+              <Text style={styles.menuValue}>{pendingUploadCount}</Text>
+            )}
+            <Ionicons name="chevron-forward" size={18} color="#ccc" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionHeader}>Streaks</Text>
+          <View style={styles.menuItem}>
+            <View style={styles.menuIconContainer}>
+              <Ionicons name="snow-outline" size={22} color="#333" />
+            </View>
+            <Text style={styles.menuText}>Streak Freezes</Text>
+            <Text style={styles.menuValue}>
+              {user?.streak_freeze_tokens ?? 0}
+            </Text>
+          </View>
+
+          <View style={styles.menuItem}>
+            <View style={styles.menuIconContainer}>
+              <Ionicons name="flash-outline" size={22} color="#333" />
+            </View>
+            <Text style={styles.menuText}>Use Freezes Automatically</Text>
+            <Switch
+              value={user?.auto_streak_freeze ?? true}
+              onValueChange={handleToggleAutoFreeze}
+            />
+          </View>
+
+          <TouchableOpacity style={styles.menuItem} onPress={handleAddRestDays}>
+            <View style={styles.menuIconContainer}>
+              <Ionicons name="bed-outline" size={22} color="#333" />
+            </View>
+            <Text style={styles.menuText}>Add Rest Days</Text>
+            <Ionicons name="chevron-forward" size={18} color="#ccc" />
+          </TouchableOpacity>
+
+          {restPeriods.map((period) => (
+            <View key={period.id} style={styles.restPeriodItem}>
+              <Text style={styles.restPeriodText}>
+                {formatRestPeriod(period.start_date, period.end_date)}
+              </Text>
+              <TouchableOpacity onPress={() => deleteRestPeriod(period.id)}>
+                <Ionicons name="close-circle" size={20} color="#ccc" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+
+        {user?.role === "moderator" && (
+          <View style={styles.section}>
+            <Text style={styles.sectionHeader}>Moderation</Text>
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => navigation.navigate("Moderation")}
+            >
+              <View style={styles.menuIconContainer}>
+                <Ionicons name="flag-outline" size={22} color="#333" />
+              </View>
+              <Text style={styles.menuText}>Reported Content</Text>
+              <Ionicons name="chevron-forward" size={18} color="#ccc" />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionHeader}>Blocked Users</Text>
+          {blockedUsers.length === 0 ? (
+            <Text style={styles.emptyText}>You haven't blocked anyone.</Text>
+          ) : (
+            blockedUsers.map((block) => (
+              <View key={block.blocked_id} style={styles.menuItem}>
+                <View style={styles.menuIconContainer}>
+                  <Ionicons name="ban-outline" size={22} color="#333" />
+                </View>
+                <Text style={styles.menuText}>
+                  {block.blocked?.username ?? "Unknown User"}
+                </Text>
+                <TouchableOpacity onPress={() => handleUnblock(block)}>
+                  <Text style={styles.unblockText}>Unblock</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
         </View>
 
         <View style={styles.section}>
@@ -152,6 +559,20 @@ const SettingsScreen: React.FC = () => {
 
         <View style={styles.section}>
           <Text style={styles.sectionHeader}>Data Management</Text>
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={handleCleanUpStorage}
+            disabled={cleaningStorage}
+          >
+            <View style={styles.menuIconContainer}>
+              <Ionicons name="sparkles-outline" size={22} color="#333" />
+            </View>
+            <Text style={styles.menuText}>
+              {cleaningStorage ? "Checking..." : "Clean Up Storage"}
+            </Text>
+            {cleaningStorage && <ActivityIndicator size="small" color="#666" />}
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.menuItem}
             onPress={handleResetData}
@@ -242,6 +663,41 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     letterSpacing: -0.3,
   },
+  menuValue: {
+    fontSize: 17,
+    color: "#999",
+    fontWeight: "500",
+  },
+  hourButton: {
+    padding: 6,
+  },
+  hourText: {
+    fontSize: 17,
+    color: "#999",
+    fontWeight: "500",
+    minWidth: 80,
+    textAlign: "center",
+  },
+  restPeriodItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 10,
+    paddingLeft: 40,
+  },
+  restPeriodText: {
+    fontSize: 15,
+    color: "#666",
+  },
+  emptyText: {
+    fontSize: 15,
+    color: "#999",
+  },
+  unblockText: {
+    fontSize: 15,
+    color: "#007AFF",
+    fontWeight: "600",
+  },
   signOutButton: {
     paddingVertical: 16,
     alignItems: "center",
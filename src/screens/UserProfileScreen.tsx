@@ -8,6 +8,7 @@ import {
   RefreshControl,
   Image,
   Dimensions,
+  Alert,
 } from "react-native";
 import { LinearGradient } from "expo-linear-gradient";
 import { Ionicons } from "@expo/vector-icons";
@@ -15,12 +16,30 @@ import { useRoute, useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { RouteProp } from "@react-navigation/native";
 import { supabase } from "../services/supabase";
-import { User, Habit, HabitStats, HabitCompletion } from "../types";
+import { blockUser, unblockUser } from "../services/blocks";
+import {
+  User,
+  Habit,
+  HabitStats,
+  HabitCompletion,
+  HabitVisibility,
+} from "../types";
 import { RootStackParamList } from "../types";
 import DaySlideshow from "../components/DaySlideshow";
 import DayDetailModal from "../components/DayDetailModal";
 import { useAuth } from "../contexts/AuthContext";
 import { CachedImage } from "../components/CachedImage";
+import {
+  computeHabitStats,
+  computeProfileStats,
+  getRestDays,
+} from "../utils/habitStats";
+import {
+  getCompletionDateKey,
+  getDateKeysInRange,
+  resolveTimeZone,
+  toDateKey,
+} from "../utils/dates";
 
 type UserProfileScreenRouteProp = RouteProp<RootStackParamList, "UserProfile">;
 type UserProfileScreenNavigationProp = StackNavigationProp<
@@ -56,6 +75,7 @@ const UserProfileScreen: React.FC = () => {
     "none" | "pending" | "friends" | "sent"
   >("none");
   const [sendingRequest, setSendingRequest] = useState(false);
+  const [isBlocked, setIsBlocked] = useState(false); // We blocked this user
   const [dateList, setDateList] = useState<string[]>([]);
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedCompletions, setSelectedCompletions] = useState<
@@ -66,60 +86,18 @@ const UserProfileScreen: React.FC = () => {
   >({});
   const { user: currentUser } = useAuth();
 
-  const toLocalDateString = (date: Date) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
-  };
+  const timeZone = resolveTimeZone(user?.timezone);
 
   const stats = useMemo(() => {
     if (!user?.created_at) return null;
 
-    const allCompletions = habits.flatMap((h) => h.completions);
-    const uniqueDates = new Set(
-      allCompletions.map((c) => toLocalDateString(new Date(c.completed_at)))
-    );
-    const daysActive = uniqueDates.size;
-
-    const sortedDates = Array.from(uniqueDates).sort();
-    let maxStreak = 0;
-    let currentStreak = 0;
-    let lastDateStr = "";
-
-    sortedDates.forEach((dateStr) => {
-      if (lastDateStr) {
-        const curr = new Date(dateStr);
-        const prev = new Date(lastDateStr);
-        const diffTime = Math.abs(curr.getTime() - prev.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-        if (diffDays === 1) {
-          currentStreak++;
-        } else {
-          currentStreak = 1;
-        }
-      } else {
-        currentStreak = 1;
-      }
-      if (currentStreak > maxStreak) maxStreak = currentStreak;
-      lastDateStr = dateStr;
-    });
-
-    const joinDate = new Date(user.created_at);
-    const now = new Date();
-    const totalDays = Math.max(
-      1,
-      Math.floor((now.getTime() - joinDate.getTime()) / (1000 * 60 * 60 * 24)) +
-        1
-    );
-    const percentage = Math.round((daysActive / totalDays) * 100);
-
     return {
-      daysActive,
-      longestStreak: maxStreak,
+      ...computeProfileStats(
+        habits.flatMap((h) => h.completions),
+        user.created_at,
+        timeZone
+      ),
       habitCount: habits.length,
-      percentage,
     };
   }, [habits, user]);
 
@@ -127,7 +105,7 @@ const UserProfileScreen: React.FC = () => {
     const map: Record<string, HabitCompletion[]> = {};
     habits.forEach((habit) => {
       habit.completions.forEach((completion) => {
-        const dateStr = toLocalDateString(new Date(completion.completed_at));
+        const dateStr = getCompletionDateKey(completion, timeZone);
         if (!map[dateStr]) {
           map[dateStr] = [];
         }
@@ -135,31 +113,23 @@ const UserProfileScreen: React.FC = () => {
       });
     });
     setCompletionsMap(map);
-  }, [habits]);
+  }, [habits, timeZone]);
 
   const generateDates = () => {
     if (user?.created_at) {
-      const dates: string[] = [];
-      const now = new Date();
-      now.setHours(0, 0, 0, 0);
-
-      const joinDate = new Date(user.created_at);
-      joinDate.setHours(0, 0, 0, 0);
-
-      let currentDate = new Date(now);
-
       // Generate dates from today backwards to join date
-      while (currentDate >= joinDate) {
-        dates.push(toLocalDateString(currentDate));
-        currentDate.setDate(currentDate.getDate() - 1);
-      }
-      setDateList(dates);
+      setDateList(
+        getDateKeysInRange(
+          toDateKey(user.created_at, timeZone),
+          toDateKey(new Date(), timeZone)
+        ).reverse()
+      );
     }
   };
 
   useEffect(() => {
     generateDates();
-  }, [user?.created_at]);
+  }, [user?.created_at, timeZone]);
 
   useEffect(() => {
     fetchUserProfile();
@@ -180,20 +150,80 @@ const UserProfileScreen: React.FC = () => {
       if (userError) throw userError;
       setUser(userData);
 
-      // Fetch user's public habits
+      // Nothing but the unblock option is shown for blocked users
+      if (currentUser && currentUser.id !== userId) {
+        const { data: block } = await supabase
+          .from("user_blocks")
+          .select("blocked_id")
+          .eq("blocker_id", currentUser.id)
+          .eq("blocked_id", userId)
+          .maybeSingle();
+        setIsBlocked(!!block);
+        if (block) {
+          setHabits([]);
+          return;
+        }
+      }
+
+      // Friends also see friends-only habits and those shared with a
+      // close friends list they're on
+      let visibleTo: HabitVisibility[] = ["public"];
+      let listIds: string[] = [];
+      if (currentUser?.id === userId) {
+        visibleTo = ["private", "friends", "list", "public"];
+      } else if (currentUser) {
+        const { data: friendship } = await supabase
+          .from("friendships")
+          .select("id")
+          .or(
+            `and(user1_id.eq.${currentUser.id},user2_id.eq.${userId}),and(user1_id.eq.${userId},user2_id.eq.${currentUser.id})`
+          )
+          .maybeSingle();
+        if (friendship) {
+          visibleTo = ["friends", "public"];
+
+          const { data: memberships } = await supabase
+            .from("audience_list_members")
+            .select("list_id, audience_lists!inner(user_id)")
+            .eq("member_id", currentUser.id)
+            .eq("audience_lists.user_id", userId);
+          listIds = (memberships || []).map((m) => m.list_id);
+        }
+      }
+
+      const visibleHabits = [`visibility.in.(${visibleTo.join(",")})`];
+      if (listIds.length > 0) {
+        visibleHabits.push(
+          `and(visibility.eq.list,audience_list_id.in.(${listIds.join(",")}))`
+        );
+      }
+
       const { data: habitsData, error: habitsError } = await supabase
         .from("habits")
         .select("*")
         .eq("user_id", userId)
-        .eq("is_public", true)
+        .or(visibleHabits.join(","))
         .order("created_at", { ascending: false });
 
       if (habitsError) throw habitsError;
 
+      // Frozen and rest days protect the streak here just as on the
+      // owner's own screens
+      const [freezesResult, restPeriodsResult] = await Promise.all([
+        supabase
+          .from("streak_freezes")
+          .select("habit_id, frozen_on")
+          .eq("user_id", userId),
+        supabase.from("rest_periods").select("*").eq("user_id", userId),
+      ]);
+
+      if (freezesResult.error) throw freezesResult.error;
+      if (restPeriodsResult.error) throw restPeriodsResult.error;
+      const restDays = getRestDays(restPeriodsResult.data || []);
+
       // Fetch completions for each habit
       const habitsWithStats = await Promise.all(
         (habitsData || []).map(async (habit) => {
-          const stats = await fetchHabitStats(habit.id);
           const { data: completions } = await supabase
             .from("habit_completions")
             .select("*")
@@ -202,7 +232,19 @@ const UserProfileScreen: React.FC = () => {
 
           return {
             ...habit,
-            stats,
+            stats: computeHabitStats({
+              habitId: habit.id,
+              completions: completions || [],
+              schedule: habit,
+              timeZone: resolveTimeZone(userData.timezone),
+              createdAt: habit.created_at,
+              protectedDays: [
+                ...(freezesResult.data || [])
+                  .filter((freeze) => freeze.habit_id === habit.id)
+                  .map((freeze) => freeze.frozen_on),
+                ...restDays,
+              ],
+            }),
             completions: completions || [],
           };
         })
@@ -327,6 +369,55 @@ const UserProfileScreen: React.FC = () => {
     }
   };
 
+  const handleMenuPress = () => {
+    if (!currentUser || !user) return;
+
+    Alert.alert(user.username, undefined, [
+      { text: "Cancel", style: "cancel" },
+      isBlocked
+        ? { text: "Unblock", onPress: handleUnblock }
+        : { text: "Block", style: "destructive", onPress: confirmBlock },
+    ]);
+  };
+
+  const confirmBlock = () => {
+    if (!user) return;
+    Alert.alert(
+      `Block ${user.username}?`,
+      "You won't see each other's posts or profiles, and they won't be able to message you or send friend requests.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Block", style: "destructive", onPress: handleBlock },
+      ]
+    );
+  };
+
+  const handleBlock = async () => {
+    if (!currentUser) return;
+    try {
+      await blockUser(currentUser.id, userId);
+      setIsBlocked(true);
+      setHabits([]);
+      setFriendshipStatus("none");
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      Alert.alert("Error", "Failed to block user. Please try again.");
+    }
+  };
+
+  const handleUnblock = async () => {
+    if (!currentUser) return;
+    try {
+      await unblockUser(currentUser.id, userId);
+      setIsBlocked(false);
+      fetchUserProfile();
+      checkFriendshipStatus();
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      Alert.alert("Error", "Failed to unblock user. Please try again.");
+    }
+  };
+
   const renderFriendButton = () => {
     if (!currentUser || currentUser.id === userId) return null;
 
@@ -397,98 +488,6 @@ const UserProfileScreen: React.FC = () => {
     }
   };
 
-  const fetchHabitStats = async (habitId: string): Promise<HabitStats> => {
-    try {
-      const { data, error } = await supabase
-        .from("habit_completions")
-        .select("completed_at")
-        .eq("habit_id", habitId)
-        .order("completed_at", { ascending: false });
-
-      if (error) throw error;
-
-      const completions = data || [];
-      const totalCompletions = completions.length;
-
-      // Calculate current streak
-      let currentStreak = 0;
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      if (completions.length > 0) {
-        const mostRecentDate = new Date(completions[0].completed_at);
-        mostRecentDate.setHours(0, 0, 0, 0);
-
-        const daysSinceLastCompletion = Math.floor(
-          (today.getTime() - mostRecentDate.getTime()) / (1000 * 60 * 60 * 24)
-        );
-
-        if (daysSinceLastCompletion <= 1) {
-          let expectedDate = new Date(mostRecentDate);
-
-          for (let i = 0; i < completions.length; i++) {
-            const completionDate = new Date(completions[i].completed_at);
-            completionDate.setHours(0, 0, 0, 0);
-
-            if (completionDate.getTime() === expectedDate.getTime()) {
-              currentStreak++;
-              expectedDate.setDate(expectedDate.getDate() - 1);
-            } else {
-              break;
-            }
-          }
-        }
-      }
-
-      // Calculate longest streak by analyzing all completion history
-      let longestStreak = 0;
-      if (completions.length > 0) {
-        let tempStreak = 1;
-        longestStreak = 1;
-
-        for (let i = 1; i < completions.length; i++) {
-          const currentDate = new Date(completions[i - 1].completed_at);
-          const previousDate = new Date(completions[i].completed_at);
-          currentDate.setHours(0, 0, 0, 0);
-          previousDate.setHours(0, 0, 0, 0);
-
-          const daysDiff = Math.floor(
-            (currentDate.getTime() - previousDate.getTime()) /
-              (1000 * 60 * 60 * 24)
-          );
-
-          if (daysDiff === 1) {
-            // Consecutive days
-            tempStreak++;
-            longestStreak = Math.max(longestStreak, tempStreak);
-          } else {
-            // Gap found, reset streak
-            tempStreak = 1;
-          }
-        }
-      }
-
-      return {
-        habit_id: habitId,
-        current_streak: currentStreak,
-        longest_streak: longestStreak,
-        total_completions: totalCompletions,
-        completion_rate: 0,
-        last_completed: completions[0]?.completed_at || null,
-      };
-    } catch (error) {
-      console.error("Error fetching habit stats:", error);
-      return {
-        habit_id: habitId,
-        current_streak: 0,
-        longest_streak: 0,
-        total_completions: 0,
-        completion_rate: 0,
-        last_completed: null,
-      };
-    }
-  };
-
   const onRefresh = () => {
     setRefreshing(true);
     generateDates();
@@ -527,7 +526,7 @@ const UserProfileScreen: React.FC = () => {
     const dayNumber = day;
 
     // Check if date is in the future
-    const todayStr = toLocalDateString(new Date());
+    const todayStr = toDateKey(new Date(), timeZone);
     const isFuture = dateStr > todayStr;
 
     return (
@@ -636,7 +635,17 @@ const UserProfileScreen: React.FC = () => {
           <Text style={styles.memberSince}>
             Member since {new Date(user.created_at).toLocaleDateString()}
           </Text>
-          {renderFriendButton()}
+          {isBlocked ? (
+            <TouchableOpacity
+              style={styles.unblockButton}
+              onPress={handleUnblock}
+            >
+              <Ionicons name="ban-outline" size={18} color="#FF3B30" />
+              <Text style={styles.unblockText}>Blocked · Tap to unblock</Text>
+            </TouchableOpacity>
+          ) : (
+            renderFriendButton()
+          )}
 
           {/* Habit Tags */}
           {habits.length > 0 && (
@@ -757,15 +766,24 @@ const UserProfileScreen: React.FC = () => {
     );
   };
 
-  const renderEmpty = () => (
-    <View style={styles.emptyContainer}>
-      <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
-      <Text style={styles.emptyTitle}>No Public Habits</Text>
-      <Text style={styles.emptySubtitle}>
-        This user hasn't shared any habits publicly yet.
-      </Text>
-    </View>
-  );
+  const renderEmpty = () =>
+    isBlocked ? (
+      <View style={styles.emptyContainer}>
+        <Ionicons name="ban-outline" size={48} color="#ccc" />
+        <Text style={styles.emptyTitle}>User Blocked</Text>
+        <Text style={styles.emptySubtitle}>
+          Unblock this user to see their habits again.
+        </Text>
+      </View>
+    ) : (
+      <View style={styles.emptyContainer}>
+        <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
+        <Text style={styles.emptyTitle}>No Public Habits</Text>
+        <Text style={styles.emptySubtitle}>
+          This user hasn't shared any habits publicly yet.
+        </Text>
+      </View>
+    );
 
   return (
     <View style={styles.container}>
@@ -777,11 +795,17 @@ const UserProfileScreen: React.FC = () => {
           <Ionicons name="arrow-back" size={24} color="#333" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Profile</Text>
-        <View style={styles.placeholder} />
+        {currentUser && currentUser.id !== userId ? (
+          <TouchableOpacity style={styles.backButton} onPress={handleMenuPress}>
+            <Ionicons name="ellipsis-horizontal" size={24} color="#333" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.placeholder} />
+        )}
       </View>
 
       <FlatList
-        data={dateList}
+        data={isBlocked ? [] : dateList}
         renderItem={renderDayCell}
         keyExtractor={(item) => item}
         numColumns={7}
@@ -835,6 +859,22 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 40,
   },
+  unblockButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#FF3B30",
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginTop: 16,
+  },
+  unblockText: {
+    color: "#FF3B30",
+    fontSize: 15,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
   profileSection: {
     backgroundColor: "#fff",
     alignItems: "center",
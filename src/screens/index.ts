@@ -9,6 +9,5 @@ export { default as GalleryScreen } from "./GalleryScreen";
 export { default as ProfileScreen } from "./ProfileScreen";
 export { default as CreateHabitScreen } from "./CreateHabitScreen";
 export { default as HabitDetailScreen } from "./HabitDetailScreen";
-export { default as CameraScreen } from "./CameraScreen";
 export { default as LoadingScreen } from "./LoadingScreen";
 export { default as SettingsScreen } from "./SettingsScreen";
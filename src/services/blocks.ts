@@ -0,0 +1,28 @@
+import { supabase } from "./supabase";
+
+// Ids of everyone the current user has blocked or been blocked by
+export const fetchBlockedUserIds = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc("get_blocked_user_ids");
+  if (error) throw error;
+  return (data || []) as string[];
+};
+
+// The database trigger removes the friendship and pending requests
+export const blockUser = async (blockerId: string, blockedId: string) => {
+  const { error } = await supabase
+    .from("user_blocks")
+    .upsert(
+      { blocker_id: blockerId, blocked_id: blockedId },
+      { onConflict: "blocker_id,blocked_id", ignoreDuplicates: true }
+    );
+  if (error) throw error;
+};
+
+export const unblockUser = async (blockerId: string, blockedId: string) => {
+  const { error } = await supabase
+    .from("user_blocks")
+    .delete()
+    .eq("blocker_id", blockerId)
+    .eq("blocked_id", blockedId);
+  if (error) throw error;
+};
@@ -0,0 +1,111 @@
+import { supabase, BUCKETS, getHabitImagePath } from "./supabase";
+import { ContentReport, HabitCompletion, User } from "../types";
+
+// One queue entry per reported completion, with every open report on it
+export interface ReportedCompletion {
+  completionId: string | null; // Null once the completion has been deleted
+  reportedUser: Pick<User, "id" | "username" | "avatar_url"> | null;
+  completion:
+    | (HabitCompletion & {
+        habit?: { title: string };
+        user?: Pick<User, "id" | "username" | "avatar_url">;
+      })
+    | null;
+  reports: ContentReport[];
+}
+
+export const fetchReportQueue = async (): Promise<ReportedCompletion[]> => {
+  const { data: reports, error } = await supabase
+    .from("content_reports")
+    .select(
+      "*, reporter:users!content_reports_reporter_id_fkey(id, username), reported_user:users!content_reports_reported_user_id_fkey(id, username, avatar_url)"
+    )
+    .eq("status", "open")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  const completionIds = Array.from(
+    new Set(
+      (reports || [])
+        .map((r) => r.completion_id)
+        .filter((id): id is string => !!id)
+    )
+  );
+  const completions: Record<string, ReportedCompletion["completion"]> = {};
+  if (completionIds.length > 0) {
+    const { data, error: completionsError } = await supabase
+      .from("habit_completions")
+      .select("*, habit:habits(title), user:users(id, username, avatar_url)")
+      .in("id", completionIds);
+
+    if (completionsError) throw completionsError;
+    (data || []).forEach((c) => {
+      completions[c.id] = c;
+    });
+  }
+
+  // Oldest report first, so the longest-waiting items are reviewed first
+  const queue: Record<string, ReportedCompletion> = {};
+  // The completion's owner is the reported user while it still exists
+  (reports || []).forEach(({ reported_user, ...report }) => {
+    const key = report.completion_id ?? `user:${report.reported_user_id}`;
+    const completion = report.completion_id
+      ? (completions[report.completion_id] ?? null)
+      : null;
+    const entry = (queue[key] ||= {
+      completionId: report.completion_id,
+      reportedUser: completion?.user ?? reported_user ?? null,
+      completion,
+      reports: [],
+    });
+    entry.reports.push(report);
+  });
+  return Object.values(queue);
+};
+
+const resolveReports = async (
+  reportIds: string[],
+  status: ContentReport["status"]
+) => {
+  const { error } = await supabase
+    .from("content_reports")
+    .update({ status })
+    .in("id", reportIds);
+  if (error) throw error;
+};
+
+export const dismissReports = (reportIds: string[]) =>
+  resolveReports(reportIds, "dismissed");
+
+// Resolving by id still works once deleting the completion nulls their link
+export const removeReportedCompletion = async (item: ReportedCompletion) => {
+  if (item.completion) {
+    const paths = [item.completion.image_url, item.completion.front_image_url]
+      .map((url) => (url ? getHabitImagePath(url) : null))
+      .filter((path): path is string => !!path);
+    if (paths.length > 0) {
+      const { error: storageError } = await supabase.storage
+        .from(BUCKETS.HABIT_IMAGES)
+        .remove(paths);
+      if (storageError) throw storageError;
+    }
+
+    const { error } = await supabase
+      .from("habit_completions")
+      .delete()
+      .eq("id", item.completion.id);
+    if (error) throw error;
+  }
+
+  await resolveReports(
+    item.reports.map((r) => r.id),
+    "actioned"
+  );
+};
+
+// Also closes every open report against the user
+export const suspendUser = async (userId: string) => {
+  const { error } = await supabase.rpc("suspend_user", { p_user_id: userId });
+  if (error) throw error;
+};
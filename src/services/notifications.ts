@@ -0,0 +1,217 @@
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import { Habit } from "../types";
+import {
+  addDays,
+  dateKeyToLocalDate,
+  getWeekday,
+  toDateKey,
+} from "../utils/dates";
+import { isSamePeriod, isScheduledDay } from "../utils/frequency";
+
+// Reminders are one-off local notifications for the next few days rather
+// than repeating triggers, so a single day can be cancelled once the habit
+// is done. They are rescheduled whenever habits change, which keeps the
+// window rolling forward.
+const REMINDER_DAYS_AHEAD = 7;
+const REMINDER_PREFIX = "habit-reminder";
+const REMINDER_CHANNEL = "reminders";
+
+const NUDGE_PREFIX = "streak-nudge";
+
+export type ReminderHabit = Pick<
+  Habit,
+  "id" | "title" | "frequency" | "reminder_times" | "reminder_weekday_mask"
+> & { completedThisPeriod: boolean };
+
+export type NudgeHabit = Pick<
+  Habit,
+  "id" | "title" | "frequency" | "target_count" | "weekday_mask"
+> & {
+  stats: { current_streak: number };
+  completedToday: boolean;
+  frozenDays: string[];
+};
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+let channelReady = false;
+
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  if (Platform.OS === "android" && !channelReady) {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL, {
+      name: "Reminders",
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+    channelReady = true;
+  }
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// "HH:MM" -> minutes since midnight, or null when malformed
+const parseTime = (time: string) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+};
+
+const getReminderId = (habitId: string, dateKey: string, time: string) =>
+  `${REMINDER_PREFIX}:${habitId}:${dateKey}:${time}`;
+
+const cancelByPrefix = async (prefix: string) => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((request) => request.identifier.startsWith(prefix))
+      .map((request) =>
+        Notifications.cancelScheduledNotificationAsync(request.identifier)
+      )
+  );
+};
+
+export const syncHabitReminders = async (habits: ReminderHabit[]) => {
+  try {
+    await cancelByPrefix(`${REMINDER_PREFIX}:`);
+
+    const withReminders = habits.filter(
+      (habit) => (habit.reminder_times || []).length > 0
+    );
+    if (withReminders.length === 0) return;
+    if (!(await ensureNotificationPermission())) return;
+
+    const now = new Date();
+    const todayKey = toDateKey(now);
+
+    for (const habit of withReminders) {
+      for (let offset = 0; offset < REMINDER_DAYS_AHEAD; offset++) {
+        const dateKey = addDays(todayKey, offset);
+        const mask = habit.reminder_weekday_mask;
+        if (mask && (mask & (1 << getWeekday(dateKey))) === 0) continue;
+
+        // Nothing left to do until the next period starts
+        if (
+          habit.completedThisPeriod &&
+          isSamePeriod(dateKey, todayKey, habit.frequency)
+        ) {
+          continue;
+        }
+
+        for (const time of habit.reminder_times || []) {
+          const parsed = parseTime(time);
+          if (!parsed) continue;
+
+          const fireDate = dateKeyToLocalDate(dateKey);
+          fireDate.setHours(parsed.hour, parsed.minute, 0, 0);
+          if (fireDate <= now) continue;
+
+          await Notifications.scheduleNotificationAsync({
+            identifier: getReminderId(habit.id, dateKey, time),
+            content: {
+              title: habit.title,
+              body: "Time to check in with a photo.",
+              data: { type: "habit-reminder", habitId: habit.id },
+            },
+            trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.DATE,
+              date: fireDate,
+              channelId: REMINDER_CHANNEL,
+            },
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Error scheduling habit reminders:", error);
+  }
+};
+
+// Drops the remaining reminders for a habit on a day it was completed
+export const cancelHabitRemindersForDay = async (
+  habitId: string,
+  dateKey: string
+) => {
+  try {
+    await cancelByPrefix(`${REMINDER_PREFIX}:${habitId}:${dateKey}:`);
+  } catch (error) {
+    console.error("Error cancelling habit reminders:", error);
+  }
+};
+
+const formatStreak = (days: number) => `${days} day${days === 1 ? "" : "s"}`;
+
+// End-of-day nudges for daily habits whose streak would break tonight.
+// Tomorrow's nudge is queued for habits done today, since their streak will
+// be at risk again; the next sync replaces it once the app is opened.
+export const syncStreakNudges = async (
+  habits: NudgeHabit[],
+  hour: number | null | undefined,
+  skipHabitIds: string[],
+  restDays: string[]
+) => {
+  try {
+    await cancelByPrefix(`${NUDGE_PREFIX}:`);
+    if (hour === null || hour === undefined) return;
+
+    const now = new Date();
+    const todayKey = toDateKey(now);
+    const tomorrowKey = addDays(todayKey, 1);
+
+    const candidates = habits.filter(
+      (habit) =>
+        habit.frequency === "daily" &&
+        habit.stats.current_streak > 0 &&
+        !skipHabitIds.includes(habit.id)
+    );
+    if (candidates.length === 0) return;
+    if (!(await ensureNotificationPermission())) return;
+
+    for (const habit of candidates) {
+      const dateKey = habit.completedToday ? tomorrowKey : todayKey;
+      if (
+        !isScheduledDay(dateKey, habit) ||
+        restDays.includes(dateKey) ||
+        habit.frozenDays.includes(dateKey)
+      ) {
+        continue;
+      }
+
+      const fireDate = dateKeyToLocalDate(dateKey);
+      fireDate.setHours(hour, 0, 0, 0);
+      if (fireDate <= now) continue;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${NUDGE_PREFIX}:${habit.id}:${dateKey}`,
+        content: {
+          title: "Streak at risk",
+          body: `Your ${formatStreak(
+            habit.stats.current_streak
+          )} streak for ${habit.title} ends tonight. There's still time!`,
+          data: { type: "streak-nudge", habitId: habit.id },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: fireDate,
+          channelId: REMINDER_CHANNEL,
+        },
+      });
+    }
+  } catch (error) {
+    console.error("Error scheduling streak nudges:", error);
+  }
+};
@@ -0,0 +1,274 @@
+import { randomBytes } from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import { createRequire } from "node:module";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { createTusStandIn, ENDPOINT_PATH } from "../../scripts/tus-standin.mjs";
+import { createResumableUpload } from "./resumableUpload";
+
+// Chunks are read from disk by byte range
+vi.mock("expo-file-system/legacy", async () => {
+  const { readFile } = await import("node:fs/promises");
+  return {
+    EncodingType: { Base64: "base64" },
+    readAsStringAsync: async (
+      uri: string,
+      { position, length }: { position: number; length: number }
+    ) =>
+      (await readFile(uri))
+        .subarray(position, position + length)
+        .toString("base64"),
+  };
+});
+
+// XMLHttpRequest for Node; the package ships no types
+const XMLHttpRequest = createRequire(import.meta.url)("xhr2");
+
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+type Fault = (req: http.IncomingMessage, res: http.ServerResponse) => boolean;
+
+let directory: string;
+let server: http.Server;
+let endpoint: string;
+let faults: Fault[] = [];
+let requests: { method: string; url: string; offset?: number }[] = [];
+let objectCount = 0;
+
+// Answers the nth matching request with `status` instead of the stand-in
+const failRequest = (
+  matches: (req: http.IncomingMessage) => boolean,
+  status: number,
+  nth = 1
+) => {
+  let seen = 0;
+  faults.push((req, res) => {
+    if (!matches(req) || ++seen !== nth) return false;
+    req.resume();
+    req.on("end", () => {
+      res.writeHead(status, { "Tus-Resumable": "1.0.0" });
+      res.end();
+    });
+    return true;
+  });
+};
+
+const writeFile = (size: number) => {
+  const filePath = path.join(directory, `source-${objectCount}.jpg`);
+  const bytes = randomBytes(size);
+  fs.writeFileSync(filePath, bytes);
+  return { filePath, bytes };
+};
+
+const uploadOptions = (filePath: string, size: number) => ({
+  endpoint,
+  fileUri: filePath,
+  size,
+  headers: { Authorization: "Bearer test" },
+  metadata: {
+    bucketName: "habit-images",
+    objectName: `user/habit/back_${++objectCount}.jpg`,
+    contentType: "image/jpeg",
+  },
+});
+
+const readStored = (uploadUrl: string) =>
+  fs.readFileSync(path.join(directory, uploadUrl.split("/").pop()!));
+
+const patchOffsets = () =>
+  requests.filter((r) => r.method === "PATCH").map((r) => r.offset);
+
+beforeAll(async () => {
+  vi.stubGlobal("XMLHttpRequest", XMLHttpRequest);
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "tus-standin-"));
+  const standIn = createTusStandIn(directory);
+
+  server = http.createServer((req, res) => {
+    requests.push({
+      method: req.method!,
+      url: req.url!,
+      offset:
+        req.headers["upload-offset"] === undefined
+          ? undefined
+          : Number(req.headers["upload-offset"]),
+    });
+    if (faults.some((fault) => fault(req, res))) return;
+    standIn.handle(req, res);
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+  endpoint = `http://127.0.0.1:${port}${ENDPOINT_PATH}`;
+});
+
+afterEach(() => {
+  faults = [];
+  requests = [];
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("createResumableUpload", () => {
+  it("creates an upload and sends the file", async () => {
+    const { filePath, bytes } = writeFile(100 * 1024);
+    const onUploadUrl = vi.fn();
+    const onProgress = vi.fn();
+
+    await createResumableUpload({
+      ...uploadOptions(filePath, bytes.length),
+      onUploadUrl,
+      onProgress,
+    }).start();
+
+    expect(requests.map((r) => r.method)).toEqual(["POST", "PATCH"]);
+    const uploadUrl: string = onUploadUrl.mock.calls[0][0];
+    expect(uploadUrl.startsWith(`${endpoint}/`)).toBe(true);
+    expect(onProgress).toHaveBeenLastCalledWith(bytes.length);
+    expect(readStored(uploadUrl).equals(bytes)).toBe(true);
+  });
+
+  it("treats an object that already exists as stored", async () => {
+    const { filePath, bytes } = writeFile(1024);
+    const options = uploadOptions(filePath, bytes.length);
+    await createResumableUpload(options).start();
+    requests = [];
+
+    await createResumableUpload(options).start();
+
+    expect(requests.map((r) => r.method)).toEqual(["POST"]);
+  });
+
+  it("sends large files in 6MB chunks", async () => {
+    const { filePath, bytes } = writeFile(2 * CHUNK_SIZE + 1024);
+    const onUploadUrl = vi.fn();
+
+    await createResumableUpload({
+      ...uploadOptions(filePath, bytes.length),
+      onUploadUrl,
+    }).start();
+
+    expect(patchOffsets()).toEqual([0, CHUNK_SIZE, 2 * CHUNK_SIZE]);
+    expect(readStored(onUploadUrl.mock.calls[0][0]).equals(bytes)).toBe(true);
+  });
+
+  it("resumes from the server's offset after a failed chunk", async () => {
+    const { filePath, bytes } = writeFile(2 * CHUNK_SIZE + 1024);
+    const options = uploadOptions(filePath, bytes.length);
+    const onUploadUrl = vi.fn();
+    failRequest((req) => req.method === "PATCH", 500, 2);
+
+    await expect(
+      createResumableUpload({ ...options, onUploadUrl }).start()
+    ).rejects.toMatchObject({ status: 500 });
+    const uploadUrl: string = onUploadUrl.mock.calls[0][0];
+    requests = [];
+
+    const onProgress = vi.fn();
+    await createResumableUpload({ ...options, uploadUrl, onProgress }).start();
+
+    // Only the missing chunks are sent again
+    expect(requests.map((r) => r.method)).toEqual(["HEAD", "PATCH", "PATCH"]);
+    expect(patchOffsets()).toEqual([CHUNK_SIZE, 2 * CHUNK_SIZE]);
+    expect(onProgress).toHaveBeenNthCalledWith(1, CHUNK_SIZE);
+    expect(readStored(uploadUrl).equals(bytes)).toBe(true);
+  });
+
+  it("asks for the offset again when a chunk is rejected with 409", async () => {
+    const { filePath, bytes } = writeFile(4096);
+    const onUploadUrl = vi.fn();
+    failRequest((req) => req.method === "PATCH", 409);
+
+    await createResumableUpload({
+      ...uploadOptions(filePath, bytes.length),
+      onUploadUrl,
+    }).start();
+
+    expect(requests.map((r) => r.method)).toEqual([
+      "POST",
+      "PATCH",
+      "HEAD",
+      "PATCH",
+    ]);
+    expect(readStored(onUploadUrl.mock.calls[0][0]).equals(bytes)).toBe(true);
+  });
+
+  it.each([404, 410])(
+    "starts a new upload when the saved one is gone (%i)",
+    async (status) => {
+      const { filePath, bytes } = writeFile(4096);
+      const staleUrl = `${endpoint}/expired-upload`;
+      failRequest(
+        (req) => req.method === "HEAD" && req.url!.endsWith("/expired-upload"),
+        status
+      );
+      const onUploadUrl = vi.fn();
+
+      await createResumableUpload({
+        ...uploadOptions(filePath, bytes.length),
+        uploadUrl: staleUrl,
+        onUploadUrl,
+      }).start();
+
+      expect(requests.map((r) => r.method)).toEqual(["HEAD", "POST", "PATCH"]);
+      const uploadUrl: string = onUploadUrl.mock.calls[0][0];
+      expect(uploadUrl).not.toBe(staleUrl);
+      expect(readStored(uploadUrl).equals(bytes)).toBe(true);
+    }
+  );
+
+  it("terminates the unfinished upload when aborted", async () => {
+    const { filePath, bytes } = writeFile(2 * CHUNK_SIZE);
+    const onUploadUrl = vi.fn();
+    const upload = createResumableUpload({
+      ...uploadOptions(filePath, bytes.length),
+      onUploadUrl,
+    });
+
+    // Hold the second chunk and abort while it is in flight
+    let aborting: Promise<void> | undefined;
+    let patches = 0;
+    faults.push((req) => {
+      if (req.method !== "PATCH" || ++patches !== 2) return false;
+      aborting = upload.abort();
+      return true;
+    });
+
+    await expect(upload.start()).rejects.toThrow("Upload cancelled");
+    await aborting;
+
+    const uploadUrl: string = onUploadUrl.mock.calls[0][0];
+    expect(requests.at(-1)).toMatchObject({ method: "DELETE" });
+    const response = await fetch(uploadUrl, {
+      method: "HEAD",
+      headers: { "Tus-Resumable": "1.0.0" },
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it("leaves a finished upload alone when aborted", async () => {
+    const { filePath, bytes } = writeFile(1024);
+    const upload = createResumableUpload(uploadOptions(filePath, bytes.length));
+
+    await upload.start();
+    await upload.abort();
+
+    expect(requests.map((r) => r.method)).toEqual(["POST", "PATCH"]);
+  });
+});
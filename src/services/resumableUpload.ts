@@ -0,0 +1,227 @@
+import * as FileSystem from "expo-file-system/legacy";
+
+const TUS_VERSION = "1.0.0";
+// Supabase only accepts 6MB chunks (the last one may be shorter)
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+export interface ResumableUploadOptions {
+  endpoint: string;
+  fileUri: string;
+  size: number;
+  headers: Record<string, string>; // Auth headers sent with every request
+  metadata: Record<string, string>; // bucketName, objectName, contentType...
+  uploadUrl?: string; // From an earlier attempt, to resume instead of create
+  onUploadUrl?: (uploadUrl: string) => void; // Save this to resume later
+  onProgress?: (bytesSent: number) => void;
+}
+
+export interface ResumableUpload {
+  start: () => Promise<void>;
+  abort: () => Promise<void>; // Also terminates the unfinished upload
+}
+
+interface TusResponse {
+  status: number;
+  body: string;
+  getHeader: (name: string) => string | null;
+}
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${globalThis.btoa(value)}`)
+    .join(",");
+
+const base64ToUint8Array = (base64: string): Uint8Array => {
+  const binaryString = globalThis.atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Location may be relative to the endpoint
+const resolveUrl = (location: string, endpoint: string) => {
+  if (/^https?:\/\//.test(location)) return location;
+  const origin = endpoint.match(/^https?:\/\/[^/]+/)?.[0] ?? "";
+  return location.startsWith("/")
+    ? `${origin}${location}`
+    : `${endpoint.replace(/\/$/, "")}/${location}`;
+};
+
+const toError = (response: TusResponse, fallback: string) => {
+  let message = fallback;
+  try {
+    message = JSON.parse(response.body).message || message;
+  } catch {
+    // Not a JSON error body; keep the fallback
+  }
+  return Object.assign(new Error(message), { status: response.status });
+};
+
+// Asks the server to drop an unfinished upload and the bytes it holds.
+// Uploads that already finished or expired are gone anyway.
+export const terminateResumableUpload = async (
+  uploadUrl: string,
+  headers: Record<string, string>
+) => {
+  const response = await fetch(uploadUrl, {
+    method: "DELETE",
+    headers: { ...headers, "Tus-Resumable": TUS_VERSION },
+  });
+  if (!response.ok && ![404, 410].includes(response.status)) {
+    throw Object.assign(
+      new Error(`Terminating upload failed with status ${response.status}`),
+      { status: response.status }
+    );
+  }
+};
+
+// Uploads a file with the TUS protocol: create the upload once, then send it
+// in chunks from whatever offset the server already has. A failed or killed
+// upload carries on from its last chunk when started again with uploadUrl.
+export const createResumableUpload = (
+  options: ResumableUploadOptions
+): ResumableUpload => {
+  let aborted = false;
+  let finished = false;
+  let currentRequest: XMLHttpRequest | null = null;
+  let activeUploadUrl = options.uploadUrl;
+
+  // XHR rather than fetch for upload progress and abort
+  const request = (
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body?: Uint8Array,
+    onProgress?: (loaded: number) => void
+  ) =>
+    new Promise<TusResponse>((resolve, reject) => {
+      if (aborted) {
+        reject(new Error("Upload cancelled"));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      currentRequest = xhr;
+      xhr.open(method, url);
+      Object.entries({
+        ...options.headers,
+        ...headers,
+        "Tus-Resumable": TUS_VERSION,
+      }).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      if (onProgress) {
+        xhr.upload.onprogress = (event) => onProgress(event.loaded);
+      }
+      xhr.onload = () => {
+        currentRequest = null;
+        resolve({
+          status: xhr.status,
+          body: xhr.responseText,
+          getHeader: (name) => xhr.getResponseHeader(name),
+        });
+      };
+      // No status, so these count as network failures and are retried
+      xhr.onerror = () => {
+        currentRequest = null;
+        reject(new Error("Network request failed"));
+      };
+      xhr.onabort = () => {
+        currentRequest = null;
+        reject(new Error("Upload cancelled"));
+      };
+      xhr.send(body ?? null);
+    });
+
+  // Returns null when the object was already stored by an earlier attempt
+  const createUpload = async () => {
+    const response = await request("POST", options.endpoint, {
+      "Upload-Length": String(options.size),
+      "Upload-Metadata": encodeMetadata(options.metadata),
+    });
+    if (response.status === 409) return null;
+
+    const location = response.getHeader("Location");
+    if (response.status !== 201 || !location) {
+      throw toError(response, `Upload failed with status ${response.status}`);
+    }
+
+    const uploadUrl = resolveUrl(location, options.endpoint);
+    options.onUploadUrl?.(uploadUrl);
+    return uploadUrl;
+  };
+
+  // Null when the server has forgotten the upload and it must start over
+  const getOffset = async (uploadUrl: string) => {
+    const response = await request("HEAD", uploadUrl, {});
+    if ([403, 404, 410].includes(response.status)) return null;
+    if (response.status >= 300) {
+      throw toError(response, `Upload failed with status ${response.status}`);
+    }
+    return Number(response.getHeader("Upload-Offset")) || 0;
+  };
+
+  const start = async () => {
+    let uploadUrl = options.uploadUrl;
+    let offset = uploadUrl ? await getOffset(uploadUrl) : null;
+    if (offset === null) {
+      uploadUrl = (await createUpload()) ?? undefined;
+      if (!uploadUrl) {
+        finished = true;
+        return;
+      }
+      offset = 0;
+    }
+    activeUploadUrl = uploadUrl;
+    options.onProgress?.(offset);
+
+    while (offset < options.size) {
+      const length = Math.min(CHUNK_SIZE, options.size - offset);
+      const chunk = await FileSystem.readAsStringAsync(options.fileUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: offset,
+        length,
+      });
+
+      const chunkStart: number = offset;
+      const response = await request(
+        "PATCH",
+        uploadUrl!,
+        {
+          "Content-Type": "application/offset+octet-stream",
+          "Upload-Offset": String(chunkStart),
+        },
+        base64ToUint8Array(chunk),
+        (loaded) => options.onProgress?.(chunkStart + loaded)
+      );
+
+      // The server's offset differs from ours; ask where to continue from
+      if (response.status === 409) {
+        const serverOffset = await getOffset(uploadUrl!);
+        if (serverOffset === null) {
+          throw new Error("Upload expired before it finished");
+        }
+        offset = serverOffset;
+        continue;
+      }
+      if (response.status >= 300) {
+        throw toError(response, `Upload failed with status ${response.status}`);
+      }
+
+      offset =
+        Number(response.getHeader("Upload-Offset")) || chunkStart + length;
+      options.onProgress?.(offset);
+    }
+    finished = true;
+  };
+
+  const abort = async () => {
+    aborted = true;
+    currentRequest?.abort();
+    if (activeUploadUrl && !finished) {
+      await terminateResumableUpload(activeUploadUrl, options.headers);
+    }
+  };
+
+  return { start, abort };
+};
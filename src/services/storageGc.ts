@@ -0,0 +1,51 @@
+import { supabase, BUCKETS } from "./supabase";
+
+const REMOVE_BATCH_SIZE = 100;
+
+export interface OrphanedImage {
+  bucket_id: string;
+  name: string;
+  size: number | null;
+  created_at: string;
+}
+
+// Images in the user's storage folders that nothing references any more.
+// Uploads still queued on this device (pendingPaths) aren't recorded yet,
+// but their images are about to be.
+export const findOrphanedImages = async (
+  userId: string,
+  pendingPaths: string[] = []
+): Promise<OrphanedImage[]> => {
+  const { data, error } = await supabase.rpc("list_orphaned_images", {
+    p_user_id: userId,
+  });
+  if (error) throw error;
+
+  const pending = new Set(pendingPaths);
+  return ((data || []) as OrphanedImage[]).filter(
+    (orphan) =>
+      orphan.bucket_id !== BUCKETS.HABIT_IMAGES || !pending.has(orphan.name)
+  );
+};
+
+export const deleteOrphanedImages = async (orphans: OrphanedImage[]) => {
+  const byBucket: Record<string, string[]> = {};
+  orphans.forEach(({ bucket_id, name }) => {
+    (byBucket[bucket_id] ||= []).push(name);
+  });
+
+  for (const [bucket, paths] of Object.entries(byBucket)) {
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+      if (error) throw error;
+    }
+  }
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
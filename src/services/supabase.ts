@@ -7,6 +7,14 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error("Supabase URL and anon key are required.");
 }
 
+export const SUPABASE_URL: string = supabaseUrl;
+export const SUPABASE_ANON_KEY: string = supabaseAnonKey;
+
+// TUS endpoint for resumable uploads; can point at a local TUS server instead
+export const RESUMABLE_UPLOAD_URL: string =
+  process.env.EXPO_PUBLIC_TUS_ENDPOINT ||
+  `${supabaseUrl}/storage/v1/upload/resumable`;
+
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
     autoRefreshToken: true,
@@ -28,3 +36,11 @@ export const BUCKETS = {
   HABIT_IMAGES: "habit-images",
   AVATARS: "avatars",
 } as const;
+
+// Object path ("userId/habitId/file.jpg") of a stored habit image URL
+export const getHabitImagePath = (url: string): string | null => {
+  const marker = `/object/public/${BUCKETS.HABIT_IMAGES}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length).split("?")[0]);
+};
@@ -3,10 +3,19 @@ export interface User {
   email: string;
   username: string;
   avatar_url?: string;
+  streak_freeze_tokens?: number;
+  auto_streak_freeze?: boolean;
+  timezone?: string | null; // IANA name of the user's home timezone
+  streak_nudge_hour?: number | null; // Hour for "streak at risk" nudges, null = off
+  post_to_see_feed?: boolean; // Blur the feed until the user has posted today
+  role?: "user" | "moderator";
+  suspended_at?: string | null; // Suspended accounts can't post
   created_at: string;
   updated_at: string;
 }
 
+export type HabitVisibility = "private" | "friends" | "list" | "public";
+
 export interface Habit {
   id: string;
   user_id: string;
@@ -15,9 +24,15 @@ export interface Habit {
   color: string;
   icon?: string;
   frequency: "daily" | "weekly" | "monthly";
-  is_public: boolean;
+  target_count: number; // Completions needed per period
+  weekday_mask?: number | null; // Scheduled weekdays, bit 0 = Sunday (daily only)
+  visibility: HabitVisibility;
+  is_public: boolean; // Mirrors visibility === "public", kept by the database
+  audience_list_id?: string | null; // Set when visibility is "list"
   start_time?: string; // Format: "HH:MM"
   duration?: number; // Duration in minutes
+  reminder_times?: string[]; // Format: "HH:MM"
+  reminder_weekday_mask?: number | null; // Reminder weekdays, bit 0 = Sunday
   created_at: string;
   updated_at: string;
 }
@@ -27,9 +42,100 @@ export interface HabitCompletion {
   habit_id: string;
   user_id: string;
   completed_at: string;
+  local_date?: string | null; // Format: "YYYY-MM-DD" in the user's timezone
   image_url?: string;
   front_image_url?: string;
   notes?: string;
+  idempotency_key?: string | null; // Set by record_completion, one per capture
+  created_at: string;
+}
+
+export interface StreakFreeze {
+  id: string;
+  user_id: string;
+  habit_id: string;
+  frozen_on: string; // Format: "YYYY-MM-DD"
+  created_at: string;
+}
+
+export interface RestPeriod {
+  id: string;
+  user_id: string;
+  start_date: string; // Format: "YYYY-MM-DD"
+  end_date: string; // Format: "YYYY-MM-DD", inclusive
+  created_at: string;
+}
+
+export interface CompletionLike {
+  id: string;
+  completion_id: string;
+  user_id: string;
+  created_at: string;
+  user?: Pick<User, "id" | "username" | "avatar_url">;
+}
+
+export interface CompletionComment {
+  id: string;
+  completion_id: string;
+  user_id: string;
+  parent_id: string | null; // Comment this replies to
+  content: string;
+  created_at: string;
+  user?: Pick<User, "id" | "username" | "avatar_url">;
+}
+
+export interface CompletionReaction {
+  id: string;
+  completion_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+  user?: Pick<User, "id" | "username">;
+}
+
+export interface AudienceList {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  members?: { member_id: string }[];
+}
+
+export interface UserBlock {
+  blocker_id: string;
+  blocked_id: string;
+  created_at: string;
+  blocked?: Pick<User, "id" | "username" | "avatar_url">;
+}
+
+export interface FeedMute {
+  id: string;
+  user_id: string;
+  target_type: "completion" | "user" | "habit";
+  target_id: string;
+  created_at: string;
+}
+
+export type ReportReason =
+  "spam" | "nudity" | "harassment" | "violence" | "other";
+
+export interface ContentReport {
+  id: string;
+  reporter_id: string;
+  completion_id: string | null;
+  reported_user_id: string;
+  reason: ReportReason;
+  details?: string | null;
+  status: "open" | "dismissed" | "actioned";
+  created_at: string;
+  reporter?: Pick<User, "id" | "username">;
+}
+
+export interface Encouragement {
+  id: string;
+  completion_id: string;
+  user_id: string;
+  encouraged_on: string; // Format: "YYYY-MM-DD" in the sender's timezone
   created_at: string;
 }
 
@@ -46,7 +152,11 @@ export interface HabitStats {
   current_streak: number;
   longest_streak: number;
   total_completions: number;
-  completion_rate: number;
+  completion_rate: number; // 0-1 share of scheduled periods that met the target
+  completion_rate_7d: number;
+  completion_rate_30d: number;
+  completion_rate_90d: number;
+  strength: number; // 0-1 exponentially weighted habit strength
   last_completed: string | null;
 }
 
@@ -58,6 +168,12 @@ export interface FeedItem {
   created_at: string;
 }
 
+// A friend's completions from today, played in the story viewer
+export interface StoryGroup {
+  user: FeedItem["user"];
+  items: FeedItem[];
+}
+
 export interface AuthState {
   user: User | null;
   loading: boolean;
@@ -103,7 +219,7 @@ export interface Message {
 export interface Notification {
   id: string;
   user_id: string;
-  type: "friend_request" | "friend_accepted" | "message";
+  type: "friend_request" | "friend_accepted" | "message" | "encouragement";
   title: string;
   message: string;
   read: boolean;
@@ -117,12 +233,14 @@ export type RootStackParamList = {
   Login: undefined;
   Register: undefined;
   CreateHabit: undefined;
-  HabitDetail: { habitId: string; initialData?: any };
-  Camera: { habitId: string; selectedDate?: string };
+  HabitDetail: { habitId: string; initialData?: any; completionId?: string };
   DualCamera: { habitId: string; selectedDate?: string };
   Profile: undefined;
   UserProfile: { userId: string };
   Notifications: undefined;
   Messaging: { friendId: string; friendName: string };
   Settings: undefined;
+  AudienceLists: undefined;
+  Moderation: undefined;
+  PendingUploads: undefined;
 };
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { addDays, addMonths, toDateKey } from "./dates";
+
+describe("addDays", () => {
+  it("crosses month and year boundaries", () => {
+    expect(addDays("2024-01-31", 1)).toBe("2024-02-01");
+    expect(addDays("2024-12-31", 1)).toBe("2025-01-01");
+    expect(addDays("2025-01-01", -1)).toBe("2024-12-31");
+  });
+
+  it("includes Feb 29 only in leap years", () => {
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2024-02-29", 1)).toBe("2024-03-01");
+    expect(addDays("2023-02-28", 1)).toBe("2023-03-01");
+  });
+
+  it("moves one day at a time across DST transitions", () => {
+    expect(addDays("2024-03-09", 1)).toBe("2024-03-10");
+    expect(addDays("2024-03-10", 1)).toBe("2024-03-11");
+    expect(addDays("2024-11-03", 1)).toBe("2024-11-04");
+    expect(addDays("2024-11-04", -2)).toBe("2024-11-02");
+  });
+});
+
+describe("addMonths", () => {
+  it("clamps to the end of shorter months", () => {
+    expect(addMonths("2024-01-31", 1)).toBe("2024-02-29");
+    expect(addMonths("2023-01-31", 1)).toBe("2023-02-28");
+    expect(addMonths("2024-03-31", 1)).toBe("2024-04-30");
+    expect(addMonths("2024-03-31", -1)).toBe("2024-02-29");
+  });
+
+  it("moves Feb 29 to Feb 28 in a non-leap year", () => {
+    expect(addMonths("2024-02-29", 12)).toBe("2025-02-28");
+  });
+
+  it("crosses year boundaries", () => {
+    expect(addMonths("2024-11-15", 2)).toBe("2025-01-15");
+    expect(addMonths("2024-01-15", -1)).toBe("2023-12-15");
+  });
+});
+
+describe("toDateKey", () => {
+  const timeZone = "America/New_York";
+
+  it("uses the calendar day of the timezone, not UTC", () => {
+    expect(toDateKey("2024-06-01T03:00:00Z", timeZone)).toBe("2024-05-31");
+    expect(toDateKey("2024-06-01T03:00:00Z", "UTC")).toBe("2024-06-01");
+  });
+
+  it("handles the spring-forward day", () => {
+    // 23:59 EST on Mar 9, then 03:30 EDT on Mar 10
+    expect(toDateKey("2024-03-10T04:59:00Z", timeZone)).toBe("2024-03-09");
+    expect(toDateKey("2024-03-10T07:30:00Z", timeZone)).toBe("2024-03-10");
+  });
+
+  it("keeps the whole 25-hour fall-back day together", () => {
+    // 00:30 EDT and 23:30 EST on Nov 3
+    expect(toDateKey("2024-11-03T04:30:00Z", timeZone)).toBe("2024-11-03");
+    expect(toDateKey("2024-11-04T04:30:00Z", timeZone)).toBe("2024-11-03");
+    expect(toDateKey("2024-11-04T05:00:00Z", timeZone)).toBe("2024-11-04");
+  });
+
+  it("returns Feb 29 in a leap year", () => {
+    expect(toDateKey("2024-02-29T12:00:00Z", "UTC")).toBe("2024-02-29");
+    // Already Mar 1 in Auckland (UTC+13)
+    expect(toDateKey("2024-02-29T23:30:00Z", "Pacific/Auckland")).toBe(
+      "2024-03-01"
+    );
+  });
+
+  it("accepts a Date as well as a string", () => {
+    expect(toDateKey(new Date("2024-03-10T07:30:00Z"), timeZone)).toBe(
+      "2024-03-10"
+    );
+  });
+});
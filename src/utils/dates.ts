@@ -0,0 +1,105 @@
+// Civil-date helpers. Days are handled as "YYYY-MM-DD" keys so that
+// arithmetic never crosses a DST transition or depends on the device clock.
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+const getFormatter = (timeZone: string) => {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+  }
+  return formatters[timeZone];
+};
+
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+// A user's home timezone, falling back to the device's
+export const resolveTimeZone = (timeZone?: string | null): string =>
+  timeZone || getDeviceTimeZone();
+
+// Calendar day of `value` in `timeZone`, or on the device clock when omitted
+export const toDateKey = (value: Date | string, timeZone?: string): string => {
+  const date = typeof value === "string" ? new Date(value) : value;
+
+  if (!timeZone) {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+      date.getDate()
+    )}`;
+  }
+
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${get("year")}-${get("month")}-${get("day")}`;
+};
+
+const keyToUTC = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const utcToKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(
+    date.getUTCDate()
+  )}`;
+};
+
+export const addDays = (key: string, days: number): string =>
+  utcToKey(keyToUTC(key) + days * DAY_MS);
+
+// Clamps to the end of shorter months, e.g. Jan 31 + 1 month = Feb 28/29
+export const addMonths = (key: string, months: number): string => {
+  const [year, month, day] = key.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0));
+  return utcToKey(
+    Date.UTC(
+      lastDay.getUTCFullYear(),
+      lastDay.getUTCMonth(),
+      Math.min(day, lastDay.getUTCDate())
+    )
+  );
+};
+
+// 0 = Sunday, matching Date.getDay()
+export const getWeekday = (key: string): number =>
+  new Date(keyToUTC(key)).getUTCDay();
+
+export const diffInDays = (later: string, earlier: string): number =>
+  Math.round((keyToUTC(later) - keyToUTC(earlier)) / DAY_MS);
+
+// Local midnight of a day key on the device clock, for UI that needs a Date
+export const dateKeyToLocalDate = (key: string): Date => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Inclusive list of day keys from `start` to `end`
+export const getDateKeysInRange = (start: string, end: string): string[] => {
+  const keys: string[] = [];
+  for (let key = start; key <= end; key = addDays(key, 1)) {
+    keys.push(key);
+  }
+  return keys;
+};
+
+// Day a completion counts for. The stored local date wins so that travel or
+// a device in another timezone never moves a completion to another day.
+export const getCompletionDateKey = (
+  completion: { completed_at: string; local_date?: string | null },
+  timeZone?: string
+): string =>
+  completion.local_date || toDateKey(completion.completed_at, timeZone);
@@ -0,0 +1,90 @@
+import { Habit } from "../types";
+import { addDays, addMonths, getWeekday } from "./dates";
+
+export type Frequency = Habit["frequency"];
+
+export type HabitSchedule = Pick<
+  Habit,
+  "frequency" | "target_count" | "weekday_mask"
+>;
+
+// Sunday-first, matching Date.getDay() and the weekday mask bits
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const FREQUENCY_PERIOD_LABELS: Record<Frequency, string> = {
+  daily: "today",
+  weekly: "this week",
+  monthly: "this month",
+};
+
+export const getTargetCount = (schedule: HabitSchedule): number =>
+  Math.max(1, schedule.target_count || 1);
+
+// Weekday masks only restrict daily habits; a missing or empty mask means
+// every day is scheduled.
+export const isScheduledDay = (dateKey: string, schedule: HabitSchedule) => {
+  if (schedule.frequency !== "daily" || !schedule.weekday_mask) return true;
+  return (schedule.weekday_mask & (1 << getWeekday(dateKey))) !== 0;
+};
+
+// "Daily" for a missing or full mask, otherwise e.g. "Mon, Wed, Fri"
+export const describeWeekdays = (mask?: number | null): string => {
+  if (!mask || mask === 0b1111111) return "Daily";
+  return WEEKDAY_LABELS.filter((_, day) => mask & (1 << day)).join(", ");
+};
+
+export const describeSchedule = (schedule: HabitSchedule): string => {
+  if (schedule.frequency === "daily") {
+    return describeWeekdays(schedule.weekday_mask);
+  }
+
+  const period = schedule.frequency === "weekly" ? "week" : "month";
+  const target = getTargetCount(schedule);
+  return target === 1 ? `Once a ${period}` : `${target}× per ${period}`;
+};
+
+// Day key of the first day of the period containing `dateKey`.
+// Weeks start on Sunday to match the calendar grid.
+export const getPeriodKey = (dateKey: string, frequency: Frequency): string => {
+  if (frequency === "weekly") {
+    return addDays(dateKey, -getWeekday(dateKey));
+  }
+  if (frequency === "monthly") {
+    return `${dateKey.slice(0, 8)}01`;
+  }
+  return dateKey;
+};
+
+export const getNextPeriodKey = (
+  periodKey: string,
+  frequency: Frequency
+): string => {
+  if (frequency === "weekly") return addDays(periodKey, 7);
+  if (frequency === "monthly") return addMonths(periodKey, 1);
+  return addDays(periodKey, 1);
+};
+
+export const getPreviousPeriodKey = (
+  periodKey: string,
+  frequency: Frequency
+): string => {
+  if (frequency === "weekly") return addDays(periodKey, -7);
+  if (frequency === "monthly") return addMonths(periodKey, -1);
+  return addDays(periodKey, -1);
+};
+
+export const isSamePeriod = (
+  dateKey: string,
+  otherDateKey: string,
+  frequency: Frequency
+): boolean =>
+  getPeriodKey(dateKey, frequency) === getPeriodKey(otherDateKey, frequency);
+
+export const describeReminders = (
+  times?: string[] | null,
+  mask?: number | null
+): string => {
+  if (!times || times.length === 0) return "Off";
+  const days = describeWeekdays(mask);
+  return days === "Daily" ? times.join(", ") : `${times.join(", ")} · ${days}`;
+};
@@ -0,0 +1,311 @@
+import { describe, expect, it } from "vitest";
+import { computeHabitStats, computeProfileStats } from "./habitStats";
+import { HabitSchedule } from "./frequency";
+
+const TIME_ZONE = "America/New_York";
+
+const DAILY: HabitSchedule = {
+  frequency: "daily",
+  target_count: 1,
+  weekday_mask: null,
+};
+
+// Completions recorded on the given local days
+const onDays = (...days: string[]) =>
+  days.map((day) => ({ completed_at: `${day}T12:00:00Z`, local_date: day }));
+
+// Completions with only a timestamp, so they are bucketed by TIME_ZONE
+const at = (...timestamps: string[]) =>
+  timestamps.map((completed_at) => ({ completed_at }));
+
+describe("computeHabitStats", () => {
+  it("keeps a daily streak across the spring-forward day", () => {
+    // 21:00 local on Mar 8-11; clocks go forward on Mar 10
+    const stats = computeHabitStats({
+      habitId: "h",
+      completions: at(
+        "2024-03-09T02:00:00Z",
+        "2024-03-10T02:00:00Z",
+        "2024-03-11T01:00:00Z",
+        "2024-03-12T01:00:00Z"
+      ),
+      schedule: DAILY,
+      timeZone: TIME_ZONE,
+      now: new Date("2024-03-12T16:00:00Z"),
+    });
+
+    expect(stats.current_streak).toBe(4);
+    expect(stats.longest_streak).toBe(4);
+    expect(stats.completion_rate).toBe(1);
+  });
+
+  it("keeps a daily streak across the fall-back day", () => {
+    // 23:30 local on Nov 1-4, plus 00:30 on Nov 3; clocks go back on Nov 3
+    const stats = computeHabitStats({
+      habitId: "h",
+      completions: at(
+        "2024-11-02T03:30:00Z",
+        "2024-11-03T03:30:00Z",
+        "2024-11-03T04:30:00Z",
+        "2024-11-04T04:30:00Z",
+        "2024-11-05T04:30:00Z"
+      ),
+      schedule: DAILY,
+      timeZone: TIME_ZONE,
+      now: new Date("2024-11-05T17:00:00Z"),
+    });
+
+    expect(stats.current_streak).toBe(4);
+    expect(stats.total_completions).toBe(5);
+    expect(stats.completion_rate).toBe(1);
+  });
+
+  it("counts Feb 29 as a day of the streak", () => {
+    const stats = computeHabitStats({
+      habitId: "h",
+      completions: onDays("2024-02-28", "2024-02-29", "2024-03-01"),
+      schedule: DAILY,
+      timeZone: TIME_ZONE,
+      now: new Date("2024-03-01T20:00:00Z"),
+    });
+
+    expect(stats.current_streak).toBe(3);
+  });
+
+  it("prefers the stored local date over the timestamp", () => {
+    // The timestamp falls on Jun 2 in New York, but it was logged for Jun 1
+    const stats = computeHabitStats({
+      habitId: "h",
+      completions: [
+        { completed_at: "2024-06-02T15:00:00Z", local_date: "2024-06-01" },
+        ...onDays("2024-06-02"),
+      ],
+      schedule: DAILY,
+      timeZone: TIME_ZONE,
+      now: new Date("2024-06-02T20:00:00Z"),
+    });
+
+    expect(stats.current_streak).toBe(2);
+  });
+
+  describe("backdated completions", () => {
+    it("starts counting from a completion dated before the habit", () => {
+      const stats = computeHabitStats({
+        habitId: "h",
+        completions: onDays("2024-05-08", "2024-05-09", "2024-05-10"),
+        schedule: DAILY,
+        timeZone: TIME_ZONE,
+        createdAt: "2024-05-10T16:00:00Z",
+        now: new Date("2024-05-10T20:00:00Z"),
+      });
+
+      expect(stats.current_streak).toBe(3);
+      expect(stats.completion_rate).toBe(1);
+    });
+
+    it("counts the missed days between a backdated completion and today", () => {
+      const stats = computeHabitStats({
+        habitId: "h",
+        completions: onDays("2024-05-05", "2024-05-10"),
+        schedule: DAILY,
+        timeZone: TIME_ZONE,
+        createdAt: "2024-05-10T16:00:00Z",
+        now: new Date("2024-05-10T20:00:00Z"),
+      });
+
+      expect(stats.current_streak).toBe(1);
+      expect(stats.longest_streak).toBe(1);
+      expect(stats.completion_rate).toBeCloseTo(2 / 6);
+    });
+  });
+
+  describe("weekly and monthly targets", () => {
+    const THREE_A_WEEK: HabitSchedule = {
+      frequency: "weekly",
+      target_count: 3,
+      weekday_mask: null,
+    };
+
+    it("counts a week once its target is met", () => {
+      const stats = computeHabitStats({
+        habitId: "h",
+        completions: onDays(
+          // Week of Jun 2: met
+          "2024-06-03",
+          "2024-06-04",
+          "2024-06-06",
+          // Week of Jun 9: met, twice on one day counts once
+          "2024-06-10",
+          "2024-06-10",
+          "2024-06-12",
+          "2024-06-14",
+          // Week of Jun 16 is still running
+          "2024-06-17"
+        ),
+        schedule: THREE_A_WEEK,
+        timeZone: TIME_ZONE,
+        now: new Date("2024-06-19T16:00:00Z"),
+      });
+
+      expect(stats.current_streak).toBe(2);
+      expect(stats.completion_rate).toBe(1);
+    });
+
+    it("breaks the streak on a finished week short of the target", () => {
+      const stats = computeHabitStats({
+        habitId: "h",
+        completions: onDays(
+          "2024-06-03",
+          "2024-06-04",
+          "2024-06-06",
+          "2024-06-10",
+          "2024-06-12",
+          "2024-06-17",
+          "2024-06-18",
+          "2024-06-19"
+        ),
+        schedule: THREE_A_WEEK,
+        timeZone: TIME_ZONE,
+        now: new Date("2024-06-19T16:00:00Z"),
+      });
+
+      expect(stats.current_streak).toBe(1);
+      expect(stats.longest_streak).toBe(1);
+      expect(stats.completion_rate).toBeCloseTo(2 / 3);
+    });
+
+    it("tracks monthly habits through February", () => {
+      const stats = computeHabitStats({
+        habitId: "h",
+        completions: onDays("2024-01-31", "2024-02-29", "2024-03-31"),
+        schedule: { frequency: "monthly", target_count: 1, weekday_mask: null },
+        timeZone: TIME_ZONE,
+        now: new Date("2024-05-15T16:00:00Z"),
+      });
+
+      expect(stats.current_streak).toBe(0);
+      expect(stats.longest_streak).toBe(3);
+      expect(stats.completion_rate).toBeCloseTo(3 / 4);
+    });
+  });
+
+  it("skips weekdays outside the schedule", () => {
+    // Mondays, Wednesdays and Fridays
+    const schedule: HabitSchedule = {
+      frequency: "daily",
+      target_count: 1,
+      weekday_mask: (1 << 1) | (1 << 3) | (1 << 5),
+    };
+    const stats = computeHabitStats({
+      habitId: "h",
+      completions: onDays(
+        "2024-06-03",
+        "2024-06-05",
+        "2024-06-07",
+        "2024-06-08", // Saturday, not scheduled
+        "2024-06-10"
+      ),
+      schedule,
+      timeZone: TIME_ZONE,
+      now: new Date("2024-06-11T16:00:00Z"),
+    });
+
+    expect(stats.current_streak).toBe(4);
+    expect(stats.completion_rate).toBe(1);
+    expect(stats.total_completions).toBe(5);
+  });
+
+  describe("frozen and rest days", () => {
+    const completions = onDays(
+      "2024-06-01",
+      "2024-06-02",
+      "2024-06-04",
+      "2024-06-05"
+    );
+    const now = new Date("2024-06-05T20:00:00Z");
+
+    it("breaks the streak on a missed day", () => {
+      const stats = computeHabitStats({
+        habitId: "h",
+        completions,
+        schedule: DAILY,
+        timeZone: TIME_ZONE,
+        now,
+      });
+
+      expect(stats.current_streak).toBe(2);
+      expect(stats.completion_rate).toBeCloseTo(4 / 5);
+    });
+
+    it("treats a protected day as neutral", () => {
+      const stats = computeHabitStats({
+        habitId: "h",
+        completions,
+        schedule: DAILY,
+        timeZone: TIME_ZONE,
+        protectedDays: ["2024-06-03"],
+        now,
+      });
+
+      expect(stats.current_streak).toBe(4);
+      expect(stats.completion_rate).toBe(1);
+    });
+
+    it("protects a whole week for weekly habits", () => {
+      const stats = computeHabitStats({
+        habitId: "h",
+        completions: onDays("2024-06-03", "2024-06-17"),
+        schedule: { frequency: "weekly", target_count: 1, weekday_mask: null },
+        timeZone: TIME_ZONE,
+        protectedDays: ["2024-06-10", "2024-06-11"],
+        now: new Date("2024-06-19T16:00:00Z"),
+      });
+
+      expect(stats.current_streak).toBe(2);
+    });
+  });
+});
+
+describe("computeProfileStats", () => {
+  it("counts distinct active days across the spring-forward day", () => {
+    // 21:00 local on Mar 9, 10 (twice) and 11, then Mar 13
+    const stats = computeProfileStats(
+      at(
+        "2024-03-10T02:00:00Z",
+        "2024-03-11T01:00:00Z",
+        "2024-03-11T02:30:00Z",
+        "2024-03-12T01:00:00Z",
+        "2024-03-14T01:00:00Z"
+      ),
+      "2024-03-05T15:00:00Z",
+      TIME_ZONE,
+      new Date("2024-03-14T16:00:00Z")
+    );
+
+    expect(stats).toEqual({ daysActive: 4, longestStreak: 3, percentage: 40 });
+  });
+
+  it("runs a streak through Feb 29", () => {
+    const stats = computeProfileStats(
+      onDays("2024-02-28", "2024-02-29", "2024-03-01"),
+      "2024-02-01T15:00:00Z",
+      TIME_ZONE,
+      new Date("2024-03-01T20:00:00Z")
+    );
+
+    expect(stats.longestStreak).toBe(3);
+    expect(stats.percentage).toBe(Math.round((3 / 30) * 100));
+  });
+
+  it("buckets joinedAt in the home timezone", () => {
+    // 22:00 on Mar 4 in New York is already Mar 5 in UTC
+    const stats = computeProfileStats(
+      onDays("2024-03-04"),
+      "2024-03-05T03:00:00Z",
+      TIME_ZONE,
+      new Date("2024-03-05T16:00:00Z")
+    );
+
+    expect(stats.percentage).toBe(50);
+  });
+});
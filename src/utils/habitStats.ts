@@ -0,0 +1,247 @@
+import { HabitCompletion, HabitStats, RestPeriod } from "../types";
+import {
+  addDays,
+  diffInDays,
+  getCompletionDateKey,
+  getDateKeysInRange,
+  getDeviceTimeZone,
+  toDateKey,
+} from "./dates";
+import {
+  Frequency,
+  HabitSchedule,
+  getNextPeriodKey,
+  getPeriodKey,
+  getTargetCount,
+  isScheduledDay,
+} from "./frequency";
+
+// Pure statistics engine shared by every screen that shows streaks or rates.
+// Completions are bucketed into their stored local day (or the calendar day
+// of `timeZone`) first, so the results do not depend on the device clock or
+// on DST transitions.
+
+type CompletionInput = Pick<HabitCompletion, "completed_at" | "local_date">;
+
+const ROLLING_WINDOWS = [7, 30, 90] as const;
+
+const PERIOD_DAYS: Record<Frequency, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+};
+
+// Per-period decay of the strength score, as in Loop Habit Tracker: a daily
+// habit halves the weight of old check-ins every 13 days, less frequent
+// habits decay more slowly. A single miss only dents a strong habit.
+const getStrengthMultiplier = (frequency: Frequency) =>
+  Math.pow(0.5, Math.sqrt(PERIOD_DAYS[frequency]) / 13);
+
+export interface HabitStatsInput {
+  habitId: string;
+  completions: CompletionInput[];
+  schedule: HabitSchedule;
+  timeZone?: string;
+  createdAt?: string;
+  protectedDays?: string[]; // Frozen or rest day keys
+  now?: Date;
+}
+
+export interface ProfileStats {
+  daysActive: number;
+  longestStreak: number;
+  percentage: number;
+}
+
+// Every day key covered by the rest periods
+export const getRestDays = (restPeriods: RestPeriod[]): string[] =>
+  restPeriods.flatMap((period) =>
+    getDateKeysInRange(period.start_date, period.end_date)
+  );
+
+// Sorted, distinct day keys of the completions
+const getCompletionDays = (
+  completions: CompletionInput[],
+  timeZone: string
+): string[] =>
+  Array.from(
+    new Set(completions.map((c) => getCompletionDateKey(c, timeZone)))
+  ).sort();
+
+// Completed days per period. Days outside the weekday schedule are neutral
+// and do not count towards a period.
+const countDaysPerPeriod = (days: string[], schedule: HabitSchedule) => {
+  const counts: Record<string, number> = {};
+  days.forEach((day) => {
+    if (!isScheduledDay(day, schedule)) return;
+    const key = getPeriodKey(day, schedule.frequency);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+};
+
+export const countCompletionsInPeriod = (
+  completions: CompletionInput[],
+  schedule: HabitSchedule,
+  timeZone = getDeviceTimeZone(),
+  now = new Date()
+): number => {
+  const days = getCompletionDays(completions, timeZone);
+  const currentKey = getPeriodKey(toDateKey(now, timeZone), schedule.frequency);
+  return countDaysPerPeriod(days, schedule)[currentKey] || 0;
+};
+
+// Period keys whose target is met, e.g. for shading calendar weeks/months
+export const getMetPeriodKeys = (
+  completions: CompletionInput[],
+  schedule: HabitSchedule,
+  timeZone = getDeviceTimeZone()
+): Set<string> => {
+  const counts = countDaysPerPeriod(
+    getCompletionDays(completions, timeZone),
+    schedule
+  );
+  const target = getTargetCount(schedule);
+  return new Set(Object.keys(counts).filter((key) => counts[key] >= target));
+};
+
+export const computeHabitStats = ({
+  habitId,
+  completions,
+  schedule,
+  timeZone = getDeviceTimeZone(),
+  createdAt,
+  protectedDays = [],
+  now = new Date(),
+}: HabitStatsInput): HabitStats => {
+  const { frequency } = schedule;
+  const target = getTargetCount(schedule);
+  const days = getCompletionDays(completions, timeZone);
+  const counts = countDaysPerPeriod(days, schedule);
+  const protectedPeriods = new Set(
+    protectedDays.map((day) => getPeriodKey(day, frequency))
+  );
+
+  const lastCompleted = completions.reduce<string | null>(
+    (latest, c) =>
+      !latest || new Date(c.completed_at) > new Date(latest)
+        ? c.completed_at
+        : latest,
+    null
+  );
+
+  // Backdated completions may predate the habit itself
+  const startCandidates = [days[0], createdAt && toDateKey(createdAt, timeZone)]
+    .filter((key): key is string => !!key)
+    .sort();
+
+  let currentStreak = 0;
+  let longestStreak = 0;
+  let eligiblePeriods = 0;
+  let metPeriods = 0;
+  let strength = 0;
+  const todayKey = toDateKey(now, timeZone);
+  const multiplier = getStrengthMultiplier(frequency);
+  const windows = ROLLING_WINDOWS.map((days) => ({
+    startKey: addDays(todayKey, -(days - 1)),
+    eligible: 0,
+    met: 0,
+  }));
+
+  if (startCandidates.length > 0) {
+    const currentKey = getPeriodKey(todayKey, frequency);
+    let cursor = getPeriodKey(startCandidates[0], frequency);
+
+    // The running period only breaks the streak or lowers the rates once it
+    // is over; unscheduled and protected days are skipped entirely.
+    while (cursor <= currentKey) {
+      const nextKey = getNextPeriodKey(cursor, frequency);
+
+      if (isScheduledDay(cursor, schedule)) {
+        const count = counts[cursor] || 0;
+        const met = count >= target;
+        const isCurrent = cursor === currentKey;
+
+        // A frozen or rest period is neutral unless it was completed anyway
+        if (!met && protectedPeriods.has(cursor)) {
+          cursor = nextKey;
+          continue;
+        }
+
+        if (met) {
+          currentStreak++;
+          longestStreak = Math.max(longestStreak, currentStreak);
+        } else if (!isCurrent) {
+          currentStreak = 0;
+        }
+
+        if (met || !isCurrent) {
+          eligiblePeriods++;
+          if (met) metPeriods++;
+
+          // Partial progress towards an "N times" target earns partial credit
+          strength =
+            strength * multiplier +
+            Math.min(1, count / target) * (1 - multiplier);
+
+          windows.forEach((window) => {
+            if (nextKey <= window.startKey) return;
+            window.eligible++;
+            if (met) window.met++;
+          });
+        }
+      }
+      cursor = nextKey;
+    }
+  }
+
+  const rate = (met: number, eligible: number) =>
+    eligible > 0 ? met / eligible : 0;
+
+  return {
+    habit_id: habitId,
+    current_streak: currentStreak,
+    longest_streak: longestStreak,
+    total_completions: completions.length,
+    completion_rate: rate(metPeriods, eligiblePeriods),
+    completion_rate_7d: rate(windows[0].met, windows[0].eligible),
+    completion_rate_30d: rate(windows[1].met, windows[1].eligible),
+    completion_rate_90d: rate(windows[2].met, windows[2].eligible),
+    strength,
+    last_completed: lastCompleted,
+  };
+};
+
+export const formatPercent = (ratio: number): string =>
+  `${Math.round(ratio * 100)}%`;
+
+// Aggregate activity across all of a user's habits since they joined
+export const computeProfileStats = (
+  completions: CompletionInput[],
+  joinedAt: string,
+  timeZone = getDeviceTimeZone(),
+  now = new Date()
+): ProfileStats => {
+  const days = getCompletionDays(completions, timeZone);
+
+  let longestStreak = 0;
+  let runningStreak = 0;
+  days.forEach((day, index) => {
+    runningStreak =
+      index > 0 && diffInDays(day, days[index - 1]) === 1
+        ? runningStreak + 1
+        : 1;
+    longestStreak = Math.max(longestStreak, runningStreak);
+  });
+
+  const totalDays = Math.max(
+    1,
+    diffInDays(toDateKey(now, timeZone), toDateKey(joinedAt, timeZone)) + 1
+  );
+
+  return {
+    daysActive: days.length,
+    longestStreak,
+    percentage: Math.round((days.length / totalDays) * 100),
+  };
+};
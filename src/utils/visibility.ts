@@ -0,0 +1,38 @@
+import { Ionicons } from "@expo/vector-icons";
+import { HabitVisibility } from "../types";
+
+export const VISIBILITY_OPTIONS: {
+  value: HabitVisibility;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  description: string;
+}[] = [
+  {
+    value: "private",
+    label: "Private",
+    icon: "lock-closed-outline",
+    description: "Only you can see this habit",
+  },
+  {
+    value: "friends",
+    label: "Friends",
+    icon: "people-outline",
+    description: "Your friends can see your progress",
+  },
+  {
+    value: "list",
+    label: "List",
+    icon: "star-outline",
+    description: "Only the friends on one of your close friends lists",
+  },
+  {
+    value: "public",
+    label: "Public",
+    icon: "globe-outline",
+    description: "Anyone can see your progress in the community feed",
+  },
+];
+
+export const getVisibilityOption = (visibility: HabitVisibility | undefined) =>
+  VISIBILITY_OPTIONS.find((option) => option.value === visibility) ||
+  VISIBILITY_OPTIONS[0];
@@ -0,0 +1,8 @@
+-- "N times per period" targets and weekday schedules for habits.
+-- weekday_mask is a bitmask of scheduled weekdays (bit 0 = Sunday) and only
+-- applies to daily habits; null means every day.
+alter table public.habits
+  add column if not exists target_count integer not null default 1
+    check (target_count between 1 and 31),
+  add column if not exists weekday_mask smallint
+    check (weekday_mask between 0 and 127);
@@ -0,0 +1,70 @@
+-- Streak freezes and rest periods.
+-- Users hold a small number of freeze tokens. Spending one protects a missed
+-- day of a habit; rest periods pause every habit for a date range. How
+-- freezes are spent and earned is in the streak_freeze_rules migration.
+
+alter table public.users
+  add column if not exists streak_freeze_tokens integer not null default 1
+    check (streak_freeze_tokens >= 0),
+  add column if not exists auto_streak_freeze boolean not null default true;
+
+create table if not exists public.streak_freezes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  habit_id uuid not null references public.habits(id) on delete cascade,
+  frozen_on date not null,
+  created_at timestamptz not null default now(),
+  unique (habit_id, frozen_on)
+);
+
+create table if not exists public.rest_periods (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  start_date date not null,
+  end_date date not null,
+  created_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+alter table public.streak_freezes enable row level security;
+alter table public.rest_periods enable row level security;
+
+create policy "Users can view their own streak freezes"
+  on public.streak_freezes for select
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own rest periods"
+  on public.rest_periods for select
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own rest periods"
+  on public.rest_periods for delete
+  using (auth.uid() = user_id);
+
+-- Users may update their own row, so the token balance is guarded: only the
+-- security definer functions that spend and award freezes (which run as the
+-- table owner) and requests without a JWT may change it. Not security
+-- definer itself, so current_user is the role that issued the write.
+create or replace function public.protect_streak_freeze_tokens()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.streak_freeze_tokens := 1;
+  elsif new.streak_freeze_tokens is distinct from old.streak_freeze_tokens then
+    raise exception 'Streak freeze tokens can only be earned or spent';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_streak_freeze_tokens on public.users;
+create trigger protect_streak_freeze_tokens
+  before insert or update on public.users
+  for each row execute function public.protect_streak_freeze_tokens();
@@ -0,0 +1,40 @@
+-- Home timezone per user and the local calendar day of each completion.
+-- Day bucketing (streaks, calendars, "done today") uses local_date so it
+-- no longer depends on the clock of whichever device is looking.
+
+alter table public.users
+  add column if not exists timezone text;
+
+alter table public.habit_completions
+  add column if not exists local_date date;
+
+update public.habit_completions c
+  set local_date = (c.completed_at at time zone coalesce(u.timezone, 'UTC'))::date
+  from public.users u
+  where u.id = c.user_id and c.local_date is null;
+
+-- Fill local_date for clients that do not send it yet
+create or replace function public.set_completion_local_date()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.local_date is null then
+    select (new.completed_at at time zone coalesce(timezone, 'UTC'))::date
+      into new.local_date
+      from users
+      where id = new.user_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_completion_local_date on public.habit_completions;
+create trigger set_completion_local_date
+  before insert on public.habit_completions
+  for each row execute function public.set_completion_local_date();
+
+create index if not exists habit_completions_user_local_date_idx
+  on public.habit_completions (user_id, local_date);
@@ -0,0 +1,8 @@
+-- Per-habit reminder times ("HH:MM" on the device clock) and the weekdays
+-- they fire on. Weekday bits follow habits.weekday_mask (bit 0 = Sunday);
+-- null means every day.
+
+alter table public.habits
+  add column if not exists reminder_times text[] not null default '{}',
+  add column if not exists reminder_weekday_mask smallint
+    check (reminder_weekday_mask between 1 and 127);
@@ -0,0 +1,6 @@
+-- Hour of the day (device clock) for the "streak at risk" check.
+-- Null turns the nudge off.
+
+alter table public.users
+  add column if not exists streak_nudge_hour smallint default 20
+    check (streak_nudge_hour between 0 and 23);
@@ -0,0 +1,75 @@
+-- Likes and threaded comments on habit completions.
+-- Anyone who can see a completion (public habit, or their own) can like and
+-- comment on it. Replies point at their parent comment.
+
+create table if not exists public.completion_likes (
+  id uuid primary key default gen_random_uuid(),
+  completion_id uuid not null references public.habit_completions(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (completion_id, user_id)
+);
+
+create table if not exists public.completion_comments (
+  id uuid primary key default gen_random_uuid(),
+  completion_id uuid not null references public.habit_completions(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  parent_id uuid references public.completion_comments(id) on delete cascade,
+  content text not null check (char_length(content) between 1 and 500),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists completion_likes_completion_idx
+  on public.completion_likes (completion_id);
+create index if not exists completion_comments_completion_idx
+  on public.completion_comments (completion_id, created_at);
+
+create or replace function public.can_view_completion(p_completion_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from habit_completions c
+    join habits h on h.id = c.habit_id
+    where c.id = p_completion_id
+      and (h.is_public or c.user_id = auth.uid())
+  );
+$$;
+
+alter table public.completion_likes enable row level security;
+alter table public.completion_comments enable row level security;
+
+create policy "Likes are visible with their completion"
+  on public.completion_likes for select
+  using (public.can_view_completion(completion_id));
+
+create policy "Users can like visible completions"
+  on public.completion_likes for insert
+  with check (auth.uid() = user_id and public.can_view_completion(completion_id));
+
+create policy "Users can remove their own likes"
+  on public.completion_likes for delete
+  using (auth.uid() = user_id);
+
+create policy "Comments are visible with their completion"
+  on public.completion_comments for select
+  using (public.can_view_completion(completion_id));
+
+create policy "Users can comment on visible completions"
+  on public.completion_comments for insert
+  with check (auth.uid() = user_id and public.can_view_completion(completion_id));
+
+-- Authors can delete their comments, owners can clean up their completions
+create policy "Authors and completion owners can delete comments"
+  on public.completion_comments for delete
+  using (
+    auth.uid() = user_id
+    or exists (
+      select 1 from public.habit_completions c
+      where c.id = completion_id and c.user_id = auth.uid()
+    )
+  );
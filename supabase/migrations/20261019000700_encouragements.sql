@@ -0,0 +1,82 @@
+-- Persisted "Encourage" taps: one per user per completion per day.
+-- Each new encouragement notifies the completion's owner.
+
+create table if not exists public.encouragements (
+  id uuid primary key default gen_random_uuid(),
+  completion_id uuid not null references public.habit_completions(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  encouraged_on date not null default current_date, -- Server's (UTC) day
+  created_at timestamptz not null default now(),
+  unique (completion_id, user_id, encouraged_on)
+);
+
+create index if not exists encouragements_completion_idx
+  on public.encouragements (completion_id);
+
+alter table public.encouragements enable row level security;
+
+create policy "Encouragements are visible with their completion"
+  on public.encouragements for select
+  using (public.can_view_completion(completion_id));
+
+-- The day is always the server's, so made-up dates can't be used to send
+-- repeat notifications
+create policy "Users can encourage visible completions"
+  on public.encouragements for insert
+  with check (
+    auth.uid() = user_id
+    and public.can_view_completion(completion_id)
+    and encouraged_on = current_date
+  );
+
+alter table public.notifications
+  drop constraint if exists notifications_type_check;
+alter table public.notifications
+  add constraint notifications_type_check
+  check (type in ('friend_request', 'friend_accepted', 'message', 'encouragement'));
+
+create or replace function public.notify_encouragement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner_id uuid;
+  v_habit_id uuid;
+  v_habit_title text;
+  v_username text;
+begin
+  select c.user_id, h.id, h.title
+    into v_owner_id, v_habit_id, v_habit_title
+    from habit_completions c
+    join habits h on h.id = c.habit_id
+    where c.id = new.completion_id;
+
+  if v_owner_id is null or v_owner_id = new.user_id then
+    return new;
+  end if;
+
+  select username into v_username from users where id = new.user_id;
+
+  insert into notifications (user_id, type, title, message, data)
+    values (
+      v_owner_id,
+      'encouragement',
+      'Encouragement',
+      coalesce(v_username, 'Someone') || ' encouraged your ' || v_habit_title,
+      jsonb_build_object(
+        'completion_id', new.completion_id,
+        'habit_id', v_habit_id,
+        'sender_id', new.user_id
+      )
+    );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists notify_encouragement on public.encouragements;
+create trigger notify_encouragement
+  after insert on public.encouragements
+  for each row execute function public.notify_encouragement();
@@ -0,0 +1,31 @@
+-- Emoji reactions on habit completions. A user can add several different
+-- emoji to the same completion, but each one only once.
+
+create table if not exists public.completion_reactions (
+  id uuid primary key default gen_random_uuid(),
+  completion_id uuid not null references public.habit_completions(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  emoji text not null check (char_length(emoji) between 1 and 16),
+  created_at timestamptz not null default now(),
+  unique (completion_id, user_id, emoji)
+);
+
+create index if not exists completion_reactions_completion_idx
+  on public.completion_reactions (completion_id);
+
+alter table public.completion_reactions enable row level security;
+
+create policy "Reactions are visible with their completion"
+  on public.completion_reactions for select
+  using (public.can_view_completion(completion_id));
+
+create policy "Users can react to visible completions"
+  on public.completion_reactions for insert
+  with check (auth.uid() = user_id and public.can_view_completion(completion_id));
+
+create policy "Users can remove their own reactions"
+  on public.completion_reactions for delete
+  using (auth.uid() = user_id);
+
+-- Owners watch reactions arrive live
+alter publication supabase_realtime add table public.completion_reactions;
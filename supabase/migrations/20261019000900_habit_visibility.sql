@@ -0,0 +1,99 @@
+-- Three-level habit visibility. is_public is kept in sync so older clients
+-- and policies written against it keep working.
+
+alter table public.habits
+  add column if not exists visibility text not null default 'private'
+    check (visibility in ('private', 'friends', 'public'));
+
+update public.habits
+set visibility = case when is_public then 'public' else 'private' end;
+
+create or replace function public.sync_habit_visibility()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Writes that only touch is_public come from older clients
+  if tg_op = 'INSERT' then
+    if new.is_public and new.visibility = 'private' then
+      new.visibility := 'public';
+    end if;
+  elsif new.is_public is distinct from old.is_public
+    and new.visibility = old.visibility then
+    new.visibility := case when new.is_public then 'public' else 'private' end;
+  end if;
+
+  new.is_public := new.visibility = 'public';
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_habit_visibility on public.habits;
+create trigger sync_habit_visibility
+  before insert or update on public.habits
+  for each row execute function public.sync_habit_visibility();
+
+create or replace function public.are_friends(p_user_a uuid, p_user_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from friendships
+    where (user1_id = p_user_a and user2_id = p_user_b)
+       or (user1_id = p_user_b and user2_id = p_user_a)
+  );
+$$;
+
+create or replace function public.can_view_habit(p_habit_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from habits h
+    where h.id = p_habit_id
+      and (
+        h.user_id = auth.uid()
+        or h.visibility = 'public'
+        or (h.visibility = 'friends' and public.are_friends(auth.uid(), h.user_id))
+      )
+  );
+$$;
+
+create or replace function public.can_view_completion(p_completion_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from habit_completions c
+    where c.id = p_completion_id
+      and (c.user_id = auth.uid() or public.can_view_habit(c.habit_id))
+  );
+$$;
+
+alter table public.habits enable row level security;
+alter table public.habit_completions enable row level security;
+
+drop policy if exists "Habits are visible to their audience" on public.habits;
+create policy "Habits are visible to their audience"
+  on public.habits for select
+  using (public.can_view_habit(id));
+
+drop policy if exists "Completions are visible with their habit" on public.habit_completions;
+create policy "Completions are visible with their habit"
+  on public.habit_completions for select
+  using (user_id = auth.uid() or public.can_view_habit(habit_id));
+
+create index if not exists habits_visibility_idx
+  on public.habits (visibility);
@@ -0,0 +1,148 @@
+-- Named "close friends" lists. A habit with visibility 'list' is shared only
+-- with the friends on its audience list.
+
+create table if not exists public.audience_lists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 50),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.audience_list_members (
+  list_id uuid not null references public.audience_lists(id) on delete cascade,
+  member_id uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (list_id, member_id)
+);
+
+create index if not exists audience_lists_user_idx
+  on public.audience_lists (user_id);
+create index if not exists audience_list_members_member_idx
+  on public.audience_list_members (member_id);
+
+alter table public.habits
+  add column if not exists audience_list_id uuid
+    references public.audience_lists(id) on delete set null;
+
+alter table public.habits drop constraint if exists habits_visibility_check;
+alter table public.habits
+  add constraint habits_visibility_check
+    check (visibility in ('private', 'friends', 'list', 'public'));
+
+-- Deleting a list makes its habits private rather than widening them
+create or replace function public.privatize_orphaned_list_habits()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.visibility = 'list' and new.audience_list_id is null then
+    new.visibility := 'private';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists privatize_orphaned_list_habits on public.habits;
+create trigger privatize_orphaned_list_habits
+  before insert or update on public.habits
+  for each row execute function public.privatize_orphaned_list_habits();
+
+create or replace function public.is_audience_member(p_list_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from audience_list_members
+    where list_id = p_list_id and member_id = p_user_id
+  );
+$$;
+
+create or replace function public.can_view_habit(p_habit_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from habits h
+    where h.id = p_habit_id
+      and (
+        h.user_id = auth.uid()
+        or h.visibility = 'public'
+        or (h.visibility = 'friends' and public.are_friends(auth.uid(), h.user_id))
+        or (
+          h.visibility = 'list'
+          and public.are_friends(auth.uid(), h.user_id)
+          and public.is_audience_member(h.audience_list_id, auth.uid())
+        )
+      )
+  );
+$$;
+
+alter table public.audience_lists enable row level security;
+alter table public.audience_list_members enable row level security;
+
+create policy "Owners manage their audience lists"
+  on public.audience_lists for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Members can see lists they are on"
+  on public.audience_lists for select
+  using (public.is_audience_member(id, auth.uid()));
+
+create policy "Owners manage list members"
+  on public.audience_list_members for all
+  using (
+    exists (
+      select 1 from public.audience_lists l
+      where l.id = list_id and l.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.audience_lists l
+      where l.id = list_id
+        and l.user_id = auth.uid()
+        and public.are_friends(l.user_id, member_id)
+    )
+  );
+
+create policy "Members can see their own memberships"
+  on public.audience_list_members for select
+  using (auth.uid() = member_id);
+
+-- Completion images follow their habit's audience. Objects are stored as
+-- <user_id>/<habit_id>/<file>, so the habit comes from the second folder.
+create or replace function public.can_view_habit_image(p_name text)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_folders text[] := storage.foldername(p_name);
+begin
+  if v_folders[1] = auth.uid()::text then
+    return true;
+  end if;
+  if v_folders[2] !~ '^[0-9a-f-]{36}$' then
+    return false;
+  end if;
+  return public.can_view_habit(v_folders[2]::uuid);
+end;
+$$;
+
+update storage.buckets set public = false where id = 'habit-images';
+
+drop policy if exists "Habit images follow habit visibility" on storage.objects;
+create policy "Habit images follow habit visibility"
+  on storage.objects for select
+  using (bucket_id = 'habit-images' and public.can_view_habit_image(name));
@@ -0,0 +1,3 @@
+-- Post-to-see: the feed stays blurred until the user has posted today
+alter table public.users
+  add column if not exists post_to_see_feed boolean not null default true;
@@ -0,0 +1,3 @@
+-- Stream new completions to feeds. Realtime applies the habit_completions
+-- select policies, so viewers only receive posts they are allowed to see.
+alter publication supabase_realtime add table public.habit_completions;
@@ -0,0 +1,53 @@
+-- Per-user feed filters: hidden posts, muted users and muted habits
+create table if not exists public.feed_mutes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  target_type text not null check (target_type in ('completion', 'user', 'habit')),
+  target_id uuid not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, target_type, target_id)
+);
+
+alter table public.feed_mutes enable row level security;
+
+create policy "Users manage their own mutes"
+  on public.feed_mutes for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Reported images, reviewed by moderators
+create table if not exists public.content_reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id uuid not null references public.users(id) on delete cascade,
+  completion_id uuid references public.habit_completions(id) on delete set null,
+  reported_user_id uuid not null references public.users(id) on delete cascade,
+  reason text not null
+    check (reason in ('spam', 'nudity', 'harassment', 'violence', 'other')),
+  details text check (char_length(details) <= 500),
+  status text not null default 'open'
+    check (status in ('open', 'dismissed', 'actioned')),
+  created_at timestamptz not null default now(),
+  unique (reporter_id, completion_id)
+);
+
+create index if not exists content_reports_status_idx
+  on public.content_reports (status, created_at);
+
+alter table public.content_reports enable row level security;
+
+-- The reported user must be the completion's owner, so a report can't put
+-- someone else up for suspension
+create policy "Users can report completions they can see"
+  on public.content_reports for insert
+  with check (
+    auth.uid() = reporter_id
+    and public.can_view_completion(completion_id)
+    and reported_user_id = (
+      select c.user_id from public.habit_completions c
+      where c.id = completion_id
+    )
+  );
+
+create policy "Users can see their own reports"
+  on public.content_reports for select
+  using (auth.uid() = reporter_id);
@@ -0,0 +1,135 @@
+-- Blocking. A block cuts every tie between the two users: friendship,
+-- pending requests, messages and each other's completions.
+
+create table if not exists public.user_blocks (
+  blocker_id uuid not null references public.users(id) on delete cascade,
+  blocked_id uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (blocker_id, blocked_id),
+  check (blocker_id <> blocked_id)
+);
+
+create index if not exists user_blocks_blocked_idx
+  on public.user_blocks (blocked_id);
+
+alter table public.user_blocks enable row level security;
+
+create policy "Users manage their own blocks"
+  on public.user_blocks for all
+  using (auth.uid() = blocker_id)
+  with check (auth.uid() = blocker_id);
+
+create or replace function public.is_blocked_between(p_user_a uuid, p_user_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from user_blocks
+    where (blocker_id = p_user_a and blocked_id = p_user_b)
+       or (blocker_id = p_user_b and blocked_id = p_user_a)
+  );
+$$;
+
+-- Everyone the caller has blocked or been blocked by
+create or replace function public.get_blocked_user_ids()
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select blocked_id from user_blocks where blocker_id = auth.uid()
+  union
+  select blocker_id from user_blocks where blocked_id = auth.uid();
+$$;
+
+create or replace function public.sever_blocked_relationship()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from friendships
+  where (user1_id = new.blocker_id and user2_id = new.blocked_id)
+     or (user1_id = new.blocked_id and user2_id = new.blocker_id);
+
+  delete from friend_requests
+  where (sender_id = new.blocker_id and receiver_id = new.blocked_id)
+     or (sender_id = new.blocked_id and receiver_id = new.blocker_id);
+
+  delete from audience_list_members m
+  using audience_lists l
+  where m.list_id = l.id
+    and ((l.user_id = new.blocker_id and m.member_id = new.blocked_id)
+      or (l.user_id = new.blocked_id and m.member_id = new.blocker_id));
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sever_blocked_relationship on public.user_blocks;
+create trigger sever_blocked_relationship
+  after insert on public.user_blocks
+  for each row execute function public.sever_blocked_relationship();
+
+-- can_view_habit is security definer, so the restrictive policies below
+-- don't reach it. Redefined with the block check so likes, comments,
+-- reactions, encouragements and signed image URLs stop across a block too.
+create or replace function public.can_view_habit(p_habit_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from habits h
+    where h.id = p_habit_id
+      and not public.is_blocked_between(auth.uid(), h.user_id)
+      and (
+        h.user_id = auth.uid()
+        or h.visibility = 'public'
+        or (h.visibility = 'friends' and public.are_friends(auth.uid(), h.user_id))
+        or (
+          h.visibility = 'list'
+          and public.are_friends(auth.uid(), h.user_id)
+          and public.is_audience_member(h.audience_list_id, auth.uid())
+        )
+      )
+  );
+$$;
+
+-- Restrictive policies are ANDed with the existing permissive ones
+
+create policy "No friend requests across a block"
+  on public.friend_requests as restrictive for insert
+  with check (not public.is_blocked_between(sender_id, receiver_id));
+
+create policy "No messages across a block"
+  on public.messages as restrictive for insert
+  with check (not public.is_blocked_between(sender_id, receiver_id));
+
+create policy "Blocked users can't see each other's habits"
+  on public.habits as restrictive for select
+  using (not public.is_blocked_between(auth.uid(), user_id));
+
+create policy "Blocked users can't see each other's completions"
+  on public.habit_completions as restrictive for select
+  using (not public.is_blocked_between(auth.uid(), user_id));
+
+-- The blocker still sees the blocked profile so it can be listed and
+-- unblocked; the blocked user no longer finds the blocker at all
+create policy "Blocked users can't see who blocked them"
+  on public.users as restrictive for select
+  using (
+    not exists (
+      select 1 from public.user_blocks
+      where blocker_id = users.id and blocked_id = auth.uid()
+    )
+  );
@@ -0,0 +1,116 @@
+-- Moderation: a moderator role, account suspension and the review queue
+-- for content_reports
+
+alter table public.users
+  add column if not exists role text not null default 'user'
+    check (role in ('user', 'moderator')),
+  add column if not exists suspended_at timestamptz;
+
+create or replace function public.is_moderator()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from users where id = auth.uid() and role = 'moderator'
+  );
+$$;
+
+create or replace function public.is_suspended(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from users where id = p_user_id and suspended_at is not null
+  );
+$$;
+
+-- Users may edit their own row, but not promote or unsuspend themselves.
+-- Requests without a JWT (service role, SQL editor) are let through so
+-- moderators can be appointed by hand.
+create or replace function public.protect_moderation_columns()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null
+     and not public.is_moderator()
+     and (new.role is distinct from old.role
+       or new.suspended_at is distinct from old.suspended_at) then
+    raise exception 'Only moderators can change roles or suspensions';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_moderation_columns on public.users;
+create trigger protect_moderation_columns
+  before update on public.users
+  for each row execute function public.protect_moderation_columns();
+
+-- Suspended accounts can't post
+create policy "Suspended users can't post completions"
+  on public.habit_completions as restrictive for insert
+  with check (not public.is_suspended(user_id));
+
+-- Moderators review every report and the completions behind them
+create policy "Moderators can see all reports"
+  on public.content_reports for select
+  using (public.is_moderator());
+
+create policy "Moderators can resolve reports"
+  on public.content_reports for update
+  using (public.is_moderator())
+  with check (public.is_moderator());
+
+create policy "Moderators can see reported completions"
+  on public.habit_completions for select
+  using (
+    public.is_moderator()
+    and exists (
+      select 1 from public.content_reports r
+      where r.completion_id = habit_completions.id
+    )
+  );
+
+create policy "Moderators can remove completions"
+  on public.habit_completions for delete
+  using (public.is_moderator());
+
+create policy "Moderators can see habit images"
+  on storage.objects for select
+  using (bucket_id = 'habit-images' and public.is_moderator());
+
+create policy "Moderators can remove habit images"
+  on storage.objects for delete
+  using (bucket_id = 'habit-images' and public.is_moderator());
+
+-- Suspension goes through a function because users can only update their
+-- own row. Open reports against the user are closed as actioned.
+create or replace function public.suspend_user(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_moderator() then
+    raise exception 'Only moderators can suspend users';
+  end if;
+
+  update users
+  set suspended_at = coalesce(suspended_at, now())
+  where id = p_user_id;
+
+  update content_reports
+  set status = 'actioned'
+  where reported_user_id = p_user_id and status = 'open';
+end;
+$$;
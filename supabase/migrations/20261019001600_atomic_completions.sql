@@ -0,0 +1,76 @@
+-- Completions are recorded through record_completion so a retried upload
+-- can't create a second row. Each capture carries its own idempotency key.
+
+alter table public.habit_completions
+  add column if not exists idempotency_key text;
+
+create unique index if not exists habit_completions_idempotency_idx
+  on public.habit_completions (user_id, idempotency_key);
+
+-- Clients can't insert completions themselves; record_completion runs as
+-- the table owner and is the only way in
+revoke insert on public.habit_completions from anon, authenticated;
+
+-- Returns the existing row when the key has been used before, so the
+-- client can treat a replay as success
+create or replace function public.record_completion(
+  p_idempotency_key text,
+  p_habit_id uuid,
+  p_image_url text,
+  p_front_image_url text,
+  p_completed_at timestamptz,
+  p_local_date date
+)
+returns public.habit_completions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_completion public.habit_completions;
+  -- The JWT issuer is the project URL plus /auth/v1, so this is where this
+  -- habit's images live in the project's own storage
+  v_folder text :=
+    regexp_replace(auth.jwt() ->> 'iss', '/auth/v1$', '')
+    || '/storage/v1/object/public/habit-images/'
+    || auth.uid() || '/' || p_habit_id || '/';
+begin
+  if not exists (
+    select 1 from habits where id = p_habit_id and user_id = auth.uid()
+  ) then
+    raise exception 'Habit not found';
+  end if;
+
+  if public.is_suspended(auth.uid()) then
+    raise exception 'Account suspended';
+  end if;
+
+  -- Images must be files directly in this habit's folder of the bucket
+  if v_folder is null
+     or not starts_with(p_image_url, v_folder)
+     or not starts_with(p_front_image_url, v_folder)
+     or substr(p_image_url, length(v_folder) + 1) !~ '^[^/?#]+$'
+     or substr(p_front_image_url, length(v_folder) + 1) !~ '^[^/?#]+$' then
+    raise exception 'Images do not belong to this habit';
+  end if;
+
+  insert into habit_completions (
+    user_id, habit_id, image_url, front_image_url,
+    completed_at, local_date, idempotency_key
+  )
+  values (
+    auth.uid(), p_habit_id, p_image_url, p_front_image_url,
+    p_completed_at, p_local_date, p_idempotency_key
+  )
+  on conflict (user_id, idempotency_key) do nothing
+  returning * into v_completion;
+
+  if v_completion.id is null then
+    select * into v_completion
+    from habit_completions
+    where user_id = auth.uid() and idempotency_key = p_idempotency_key;
+  end if;
+
+  return v_completion;
+end;
+$$;
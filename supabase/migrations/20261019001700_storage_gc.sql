@@ -0,0 +1,50 @@
+-- Orphaned images: objects in habit-images or avatars that no completion
+-- or profile points at any more. The app deletes them for the signed-in
+-- user from Settings; scripts/storage-gc.mjs does it for everyone.
+
+create or replace function public.list_orphaned_images(
+  p_user_id uuid default null,
+  p_min_age interval default interval '1 day'
+)
+returns table (bucket_id text, name text, size bigint, created_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  -- Signed-in users may only check their own folders; the service role
+  -- may check anyone, or everyone by passing null
+  if coalesce(auth.role(), '') <> 'service_role'
+     and (auth.uid() is null or p_user_id is distinct from auth.uid()) then
+    raise exception 'You can only check your own images';
+  end if;
+
+  return query
+  select o.bucket_id, o.name, (o.metadata->>'size')::bigint, o.created_at
+  from storage.objects o
+  where o.bucket_id in ('habit-images', 'avatars')
+    and (p_user_id is null
+      or (storage.foldername(o.name))[1] = p_user_id::text)
+    -- Leaves room for uploads still waiting to record their completion
+    and o.created_at < now() - p_min_age
+    and not (
+      o.bucket_id = 'habit-images'
+      and exists (
+        select 1 from habit_completions c
+        where c.user_id::text = (storage.foldername(o.name))[1]
+          and (c.image_url like '%/' || o.name
+            or c.front_image_url like '%/' || o.name)
+      )
+    )
+    and not (
+      o.bucket_id = 'avatars'
+      and exists (
+        select 1 from users u
+        where u.id::text = (storage.foldername(o.name))[1]
+          and u.avatar_url like '%/' || o.name
+      )
+    )
+  order by o.created_at;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- Frozen and rest days are readable by anyone who can see the habit, so a
+-- friend's view of a streak matches the owner's.
+
+create policy "Viewers of a habit can see its streak freezes"
+  on public.streak_freezes for select
+  using (public.can_view_habit(habit_id));
+
+-- Rest periods cover every habit, so they follow any habit that is visible
+create policy "Viewers of a user's habits can see their rest periods"
+  on public.rest_periods for select
+  using (
+    exists (
+      select 1 from public.habits h
+      where h.user_id = rest_periods.user_id
+        and public.can_view_habit(h.id)
+    )
+  );
@@ -0,0 +1,154 @@
+-- How streak freezes are spent and earned, and when rest days may start.
+-- Days are compared in the user's home timezone, so a freeze or rest day
+-- can only cover a day that has really been missed or is still ahead.
+
+-- The calendar day it is now in the user's home timezone
+create or replace function public.home_today(p_user_id uuid)
+returns date
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (now() at time zone coalesce(
+    (select timezone from users where id = p_user_id), 'UTC'
+  ))::date;
+$$;
+
+-- Rest days can't be added retroactively to cover days already missed
+create policy "Users can create their own upcoming rest periods"
+  on public.rest_periods for insert
+  with check (
+    auth.uid() = user_id
+    and start_date >= public.home_today(auth.uid())
+  );
+
+-- Freezes are only created through this function so the token balance and
+-- the protected day always change together. Only a past day the habit was
+-- not completed on can be frozen.
+create or replace function public.spend_streak_freeze(
+  p_habit_id uuid,
+  p_frozen_on date
+)
+returns public.streak_freezes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_freeze public.streak_freezes;
+begin
+  if not exists (
+    select 1 from habits where id = p_habit_id and user_id = auth.uid()
+  ) then
+    raise exception 'Habit not found';
+  end if;
+
+  if p_frozen_on >= public.home_today(auth.uid()) then
+    raise exception 'Only past days can be frozen';
+  end if;
+
+  if exists (
+    select 1 from habit_completions
+    where habit_id = p_habit_id and local_date = p_frozen_on
+  ) then
+    raise exception 'The habit was completed on that day';
+  end if;
+
+  update users
+    set streak_freeze_tokens = streak_freeze_tokens - 1
+    where id = auth.uid() and streak_freeze_tokens > 0;
+
+  if not found then
+    raise exception 'No streak freezes left';
+  end if;
+
+  insert into streak_freezes (user_id, habit_id, frozen_on)
+    values (auth.uid(), p_habit_id, p_frozen_on)
+    returning * into v_freeze;
+
+  return v_freeze;
+end;
+$$;
+
+-- Milestones that have earned a freeze. They outlive the completions, so
+-- deleting and re-adding a check-in can't earn the same freeze twice.
+create table if not exists public.streak_freeze_awards (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  habit_id uuid not null references public.habits(id) on delete cascade,
+  awarded_on date not null,
+  streak integer not null,
+  created_at timestamptz not null default now(),
+  unique (habit_id, awarded_on)
+);
+
+alter table public.streak_freeze_awards enable row level security;
+
+create policy "Users can view their own streak freeze awards"
+  on public.streak_freeze_awards for select
+  using (auth.uid() = user_id);
+
+-- Every 7 days in a row of checking in earns a freeze, up to 3 held at a
+-- time. Frozen and rest days keep the run going without counting towards
+-- it. Only check-ins for today or yesterday count, and a habit earns at
+-- most once a week.
+create or replace function public.award_streak_freeze()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_streak integer;
+begin
+  if new.local_date < public.home_today(new.user_id) - 1 then
+    return new;
+  end if;
+
+  with recursive run(day) as (
+    select new.local_date
+    union all
+    select run.day - 1 from run
+    where exists (
+      select 1 from habit_completions
+      where habit_id = new.habit_id and local_date = run.day - 1
+    ) or exists (
+      select 1 from streak_freezes
+      where habit_id = new.habit_id and frozen_on = run.day - 1
+    ) or exists (
+      select 1 from rest_periods
+      where user_id = new.user_id
+        and run.day - 1 between start_date and end_date
+    )
+  )
+  select count(*) into v_streak
+  from run
+  where exists (
+    select 1 from habit_completions
+    where habit_id = new.habit_id and local_date = run.day
+  );
+
+  if v_streak % 7 <> 0 or exists (
+    select 1 from streak_freeze_awards
+    where habit_id = new.habit_id
+      and awarded_on > new.local_date - 7
+      and awarded_on < new.local_date + 7
+  ) then
+    return new;
+  end if;
+
+  insert into streak_freeze_awards (user_id, habit_id, awarded_on, streak)
+    values (new.user_id, new.habit_id, new.local_date, v_streak);
+
+  update users
+    set streak_freeze_tokens = least(streak_freeze_tokens + 1, 3)
+    where id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists award_streak_freeze on public.habit_completions;
+create trigger award_streak_freeze
+  after insert on public.habit_completions
+  for each row execute function public.award_streak_freeze();
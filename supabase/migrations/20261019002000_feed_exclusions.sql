@@ -0,0 +1,23 @@
+-- Completions as the feed should show them to the current user: hidden
+-- posts, muted users, muted habits and posts they reported are left out
+-- here rather than by id lists sent from the client, which grew with every
+-- mute. security_invoker keeps habit_completions' row level security.
+create or replace view public.feed_completions
+with (security_invoker = true) as
+select c.*
+from public.habit_completions c
+where not exists (
+    select 1 from public.feed_mutes m
+    where m.user_id = auth.uid()
+      and (
+        (m.target_type = 'completion' and m.target_id = c.id)
+        or (m.target_type = 'user' and m.target_id = c.user_id)
+        or (m.target_type = 'habit' and m.target_id = c.habit_id)
+      )
+  )
+  and not exists (
+    select 1 from public.content_reports r
+    where r.reporter_id = auth.uid() and r.completion_id = c.id
+  );
+
+grant select on public.feed_completions to authenticated;